@@ -0,0 +1,63 @@
+import { DiagnosticCategory, DiagnosticMessage } from './types';
+
+function diag(code: number, category: DiagnosticCategory, key: string, message: string): DiagnosticMessage {
+    return { code, category, key, message };
+}
+
+/** Messages reported by the scanner (1000-1099) and the parser (1100-1199) */
+export const Diagnostics = {
+    _0_expected: diag(1000, DiagnosticCategory.Error, '_0_expected_1000', '\'{0}\' expected.'),
+    Invalid_character: diag(1001, DiagnosticCategory.Error, 'Invalid_character_1001', 'Invalid character.'),
+    Hexadecimal_digit_expected: diag(1002, DiagnosticCategory.Error, 'Hexadecimal_digit_expected_1002', 'Hexadecimal digit expected.'),
+    Binary_digit_expected: diag(1003, DiagnosticCategory.Error, 'Binary_digit_expected_1003', 'Binary digit expected.'),
+    Octal_digit_expected: diag(1004, DiagnosticCategory.Error, 'Octal_digit_expected_1004', 'Octal digit expected.'),
+    Digit_expected: diag(1005, DiagnosticCategory.Error, 'Digit_expected_1005', 'Digit expected.'),
+    Unterminated_string_literal: diag(1006, DiagnosticCategory.Error, 'Unterminated_string_literal_1006', 'Unterminated string literal.'),
+    Unterminated_template_literal: diag(1007, DiagnosticCategory.Error, 'Unterminated_template_literal_1007', 'Unterminated template literal.'),
+    Unterminated_regular_expression_literal: diag(1008, DiagnosticCategory.Error, 'Unterminated_regular_expression_literal_1008', 'Unterminated regular expression literal.'),
+    Unexpected_end_of_text: diag(1009, DiagnosticCategory.Error, 'Unexpected_end_of_text_1009', 'Unexpected end of text.'),
+    Octal_escape_sequences_are_not_allowed_in_template_strings: diag(1010, DiagnosticCategory.Error, 'Octal_escape_sequences_are_not_allowed_in_template_strings_1010', 'Octal escape sequences are not allowed in template strings.'),
+    Octal_escape_sequences_are_not_allowed_use_the_syntax_x_instead: diag(1011, DiagnosticCategory.Error, 'Octal_escape_sequences_are_not_allowed_use_the_syntax_x_instead_1011', 'Octal escape sequences are not allowed, use the syntax \'\\x..\' instead.'),
+    Escape_sequences_8_and_9_are_not_allowed: diag(1012, DiagnosticCategory.Error, 'Escape_sequences_8_and_9_are_not_allowed_1012', 'Escape sequences \'\\8\' and \'\\9\' are not allowed.'),
+    An_extended_Unicode_escape_value_must_be_between_0x0_and_0x10FFFF_inclusive: diag(1013, DiagnosticCategory.Error, 'An_extended_Unicode_escape_value_must_be_between_0x0_and_0x10FFFF_inclusive_1013', 'An extended Unicode escape value must be between 0x0 and 0x10FFFF inclusive.'),
+    Unterminated_Unicode_escape_sequence: diag(1014, DiagnosticCategory.Error, 'Unterminated_Unicode_escape_sequence_1014', 'Unterminated Unicode escape sequence.'),
+    Keywords_cannot_contain_escape_characters: diag(1015, DiagnosticCategory.Error, 'Keywords_cannot_contain_escape_characters_1015', 'Keywords cannot contain escape characters.'),
+    A_bigint_literal_must_be_an_integer: diag(1016, DiagnosticCategory.Error, 'A_bigint_literal_must_be_an_integer_1016', 'A bigint literal must be an integer.'),
+    Multiple_consecutive_numeric_separators_are_not_permitted: diag(1017, DiagnosticCategory.Error, 'Multiple_consecutive_numeric_separators_are_not_permitted_1017', 'Multiple consecutive numeric separators are not permitted.'),
+    Numeric_separators_are_not_allowed_here: diag(1018, DiagnosticCategory.Error, 'Numeric_separators_are_not_allowed_here_1018', 'Numeric separators are not allowed here.'),
+    Unknown_regular_expression_flag: diag(1019, DiagnosticCategory.Error, 'Unknown_regular_expression_flag_1019', 'Unknown regular expression flag.'),
+    Duplicated_regular_expression_flag: diag(1020, DiagnosticCategory.Error, 'Duplicated_regular_expression_flag_1020', 'Duplicated regular expression flag.'),
+    The_u_and_v_regular_expression_flags_cannot_be_used_together: diag(1021, DiagnosticCategory.Error, 'The_u_and_v_regular_expression_flags_cannot_be_used_together_1021', 'The \'u\' and \'v\' regular expression flags cannot be used together.'),
+    A_bigint_literal_cannot_have_a_leading_zero: diag(1022, DiagnosticCategory.Error, 'A_bigint_literal_cannot_have_a_leading_zero_1022', 'A bigint literal cannot have a leading zero.'),
+
+    Unexpected_0_expected_1: diag(1100, DiagnosticCategory.Error, 'Unexpected_0_expected_1_1100', 'Unexpected {0}, expected {1}.'),
+    Comma_expected: diag(1101, DiagnosticCategory.Error, 'Comma_expected_1101', 'Comma expected.'),
+    Identifier_expected: diag(1102, DiagnosticCategory.Error, 'Identifier_expected_1102', 'Identifier expected.'),
+    Identifier_expected_but_got_0: diag(1103, DiagnosticCategory.Error, 'Identifier_expected_but_got_0_1103', 'Identifier expected, but got {0}.'),
+    Unmatched_parentheses: diag(1104, DiagnosticCategory.Error, 'Unmatched_parentheses_1104', 'Unmatched parentheses.'),
+    Unmatched_angle_bracket: diag(1105, DiagnosticCategory.Error, 'Unmatched_angle_bracket_1105', 'Unmatched angle bracket.'),
+    Property_name_expected: diag(1106, DiagnosticCategory.Error, 'Property_name_expected_1106', 'Property name expected.'),
+    Type_expected: diag(1107, DiagnosticCategory.Error, 'Type_expected_1107', 'Type expected.'),
+    Type_argument_list_expected: diag(1108, DiagnosticCategory.Error, 'Type_argument_list_expected_1108', 'Type argument list expected.'),
+    var_let_or_const_expected: diag(1109, DiagnosticCategory.Error, 'var_let_or_const_expected_1109', '\'var\', \'let\' or \'const\' expected.'),
+    Function_expression_must_have_body_block: diag(1110, DiagnosticCategory.Error, 'Function_expression_must_have_body_block_1110', 'Function expression must have body block.'),
+    or_block_expected: diag(1111, DiagnosticCategory.Error, 'or_block_expected_1111', '\';\' or block expected.'),
+    node_or_subnet_expected: diag(1112, DiagnosticCategory.Error, 'node_or_subnet_expected_1112', '\'node\' or \'subnet\' expected.'),
+    Declaration_expected: diag(1113, DiagnosticCategory.Error, 'Declaration_expected_1113', 'Declaration expected.'),
+    Property_or_signature_expected: diag(1114, DiagnosticCategory.Error, 'Property_or_signature_expected_1114', 'Property or signature expected.'),
+    Line_break_not_permitted_here: diag(1115, DiagnosticCategory.Error, 'Line_break_not_permitted_here_1115', 'Line break not permitted here.'),
+    Declaration_or_statement_expected: diag(1116, DiagnosticCategory.Error, 'Declaration_or_statement_expected_1116', 'Declaration or statement expected.'),
+    case_or_default_expected: diag(1117, DiagnosticCategory.Error, 'case_or_default_expected_1117', '\'case\' or \'default\' expected.'),
+    Argument_expression_expected: diag(1118, DiagnosticCategory.Error, 'Argument_expression_expected_1118', 'Argument expression expected.'),
+    Expression_or_comma_expected: diag(1119, DiagnosticCategory.Error, 'Expression_or_comma_expected_1119', 'Expression or comma expected.'),
+    Parameter_declaration_expected: diag(1120, DiagnosticCategory.Error, 'Parameter_declaration_expected_1120', 'Parameter declaration expected.'),
+    Property_assignment_expected: diag(1121, DiagnosticCategory.Error, 'Property_assignment_expected_1121', 'Property assignment expected.'),
+    Enum_member_expected: diag(1122, DiagnosticCategory.Error, 'Enum_member_expected_1122', 'Enum member expected.'),
+    Expression_expected: diag(1123, DiagnosticCategory.Error, 'Expression_expected_1123', 'Expression expected.'),
+    Variable_declaration_expected: diag(1124, DiagnosticCategory.Error, 'Variable_declaration_expected_1124', 'Variable declaration expected.'),
+    Property_destructuring_pattern_expected: diag(1125, DiagnosticCategory.Error, 'Property_destructuring_pattern_expected_1125', 'Property destructuring pattern expected.'),
+    Array_element_destructuring_pattern_expected: diag(1126, DiagnosticCategory.Error, 'Array_element_destructuring_pattern_expected_1126', 'Array element destructuring pattern expected.'),
+    _0_modifier_cannot_be_used_here: diag(1127, DiagnosticCategory.Error, '_0_modifier_cannot_be_used_here_1127', '\'{0}\' modifier cannot be used here.'),
+    Type_parameter_declaration_expected: diag(1128, DiagnosticCategory.Error, 'Type_parameter_declaration_expected_1128', 'Type parameter declaration expected.'),
+    Type_parameter_list_cannot_be_empty: diag(1129, DiagnosticCategory.Error, 'Type_parameter_list_cannot_be_empty_1129', 'Type parameter list cannot be empty.'),
+};
@@ -1,3 +1,22 @@
 export * from './types';
 
-export { Scanner } from './lexical';
+export { Diagnostics } from './diagnostic-messages';
+
+export {
+    Scanner,
+    computeLineAndCharacterOfPosition,
+    computeLineStarts,
+    computePositionOfLineAndCharacter,
+    createScanner,
+    getLeadingCommentRanges,
+    getLeadingCommentRangesOfNode,
+    getLineAndCharacterOfPosition,
+    getLineStarts,
+    getPositionOfLineAndCharacter,
+    getTrailingCommentRanges,
+    tokenize,
+} from './lexical';
+
+export { Parser, createParser } from './syntactic';
+
+export { createFileDiagnostic, formatStringFromArgs } from './util';
@@ -4,9 +4,23 @@ export enum SyntaxKind {
     Unknown,
     EndOfFileToken,
 
+    // Trivia, only produced when the scanner does not skip trivia
+    SingleLineCommentTrivia,    // // comment
+    MultiLineCommentTrivia,     // /* comment */
+    NewLineTrivia,
+    WhitespaceTrivia,
+
     // Literals
     NumericLiteral,
+    BigIntLiteral,                  // 123n
     StringLiteral,
+    RegularExpressionLiteral,       // /pattern/flags
+    NoSubstitutionTemplateLiteral,  // `text`
+
+    // Pseudo-literals
+    TemplateHead,               // `text${
+    TemplateMiddle,             // }text${
+    TemplateTail,               // }text`
 
     // <Punctuation>
     OpenBraceToken,             // {
@@ -77,6 +91,10 @@ export enum SyntaxKind {
     //     </Assignments>
     // </Punctuation>
 
+    // Ports of node
+    PortIdentifier,             // $in
+    AllPortsToken,              // $$
+
     // Identifiers, token is a keyword if token > SyntaxKind.Identifier
     Identifier,
 
@@ -298,6 +316,7 @@ export enum SyntaxKind {
     ImportDeclaration,
     ImportClause,
     NamespaceImport,
+    NamespaceExport,
     NamedImportsOrExports,
     ImportOrExportSpecifier,
     ExportAssignment,
@@ -345,10 +364,14 @@ export enum SyntaxKindMarker {
     LastKeyword = SyntaxKind.StateKeyword,
     FirstPunctuation = SyntaxKind.OpenBraceToken,
     LastPunctuation = SyntaxKind.CaretEqualsToken,
+    FirstTriviaToken = SyntaxKind.SingleLineCommentTrivia,
+    LastTriviaToken = SyntaxKind.WhitespaceTrivia,
     FirstToken = SyntaxKind.Unknown,
     LastToken = LastKeyword,
     FirstLiteralToken = SyntaxKind.NumericLiteral,
-    LastLiteralToken = SyntaxKind.StringLiteral,
+    LastLiteralToken = SyntaxKind.NoSubstitutionTemplateLiteral,
+    FirstTemplateToken = SyntaxKind.NoSubstitutionTemplateLiteral,
+    LastTemplateToken = SyntaxKind.TemplateTail,
     FirstBinaryOperator = SyntaxKind.LessThanToken,
     LastBinaryOperator = SyntaxKind.QuestionQuestionToken,
 
@@ -537,8 +560,18 @@ export enum TokenFlags {
     HexSpecifier = 1 << 3,      // e.g. `0x00000000`
     BinarySpecifier = 1 << 4,   // e.g. `0b0110010000000000`
     OctalSpecifier = 1 << 5,    // e.g. `0o777`
+    Unterminated = 1 << 6,      // e.g. `"abc` or `` `abc ``
+    UnicodeEscape = 1 << 7,     // e.g. `\u0061bc` as identifier `abc`
+    ContainsSeparator = 1 << 8, // e.g. `1_000_000`
     BinaryOrOctalSpecifier = BinarySpecifier | OctalSpecifier,
-    NumericLiteralFlags = Scientific | Octal | HexSpecifier | BinaryOrOctalSpecifier,
+    NumericLiteralFlags = Scientific | Octal | HexSpecifier | BinaryOrOctalSpecifier | ContainsSeparator,
+}
+
+export enum DiagnosticCategory {
+    Warning,
+    Error,
+    Suggestion,
+    Message,
 }
 
 export enum CharacterCodes {
@@ -547,6 +580,10 @@ export enum CharacterCodes {
 
     lineFeed = 0x0A,              // \n
     carriageReturn = 0x0D,        // \r
+    lineSeparator = 0x2028,
+    paragraphSeparator = 0x2029,
+    zeroWidthNonJoiner = 0x200C,
+    zeroWidthJoiner = 0x200D,
     space = 0x0020,   // " "
 
     _ = 0x5F,
@@ -1,7 +1,8 @@
-import { CharacterCodes, SyntaxKind, SyntaxKindMarker, TokenFlags } from './types';
-import { assert, checkReservedWord, isBinaryDigit, isDigit, isHexDigit, isIdentifierPart, isIdentifierStart, isLineBreak, isOctalDigit } from './util';
+import { Diagnostics } from './diagnostic-messages';
+import { CharacterCodes, CommentRange, DiagnosticMessage, LineAndCharacter, Node, SourceFile, SyntaxKind, SyntaxKindMarker, TokenFlags, TokenInfo } from './types';
+import { assert, charSize, checkReservedWord, isBinaryDigit, isDigit, isHexDigit, isIdentifierPart, isIdentifierStart, isLineBreak, isOctalDigit, isWhiteSpaceSingleLine, parsePseudoBigInt } from './util';
 
-interface ScannerLike {
+export interface Scanner {
     /************ states ************/
     /** text to be lexical analyzed */
     readonly text: string;
@@ -26,12 +27,22 @@ interface ScannerLike {
     isReservedWord(): boolean;
 
     reScanGreaterToken(): SyntaxKind;
+    /** Rescan a `/` or `/=` as the start of a regular expression literal. */
+    reScanSlashToken(): SyntaxKind;
+    /** Rescan a `}` as the continuation of a template, i.e. TemplateMiddle or TemplateTail. */
+    reScanTemplateToken(): SyntaxKind;
 
     /** Scan next token and move forward. */
     scan(): SyntaxKind;
 
     setOnError(onError: ErrorCallback | undefined): void;
 
+    /**
+     * Trivia (comments, whitespace and line breaks) is skipped by default.
+     * If set to false, scan() returns them as trivia tokens.
+     */
+    setSkipTrivia(skipTrivia: boolean): void;
+
     /**
      * Invokes the provided callback.  If the callback returns
      * something falsy,    then it restores the scanner to the
@@ -59,157 +70,215 @@ interface ScannerLike {
     scanRange<T>(start: number, length: number, callback: () => T): T;
 }
 
-type ErrorCallback = (message: string, length: number) => void;
+type ErrorCallback = (message: DiagnosticMessage, length: number, arg0?: string) => void;
 
-/* Global variable as the state of scanner */
-let text = '';
-let startPos = 0;
-let tokenPos = 0;
-let pos = 0;
-let end = 0; // end position of text
-let token: SyntaxKind = SyntaxKind.Unknown;
-let tokenValue: string | undefined;
-let tokenFlags: TokenFlags = TokenFlags.None;
+/** Flags that may follow a regular expression literal, e.g. `/abc/gi` */
+const regularExpressionFlags = 'dgimsuvy';
 
-/**
- * Stores the current context then invokes the callback.
- * If the callback returns false, the scanner is restored
- * to the state it was in before helper function was called.
- */
-function protectContextHelper<T>(
-    callback: () => T,
-    alwaysRestore: boolean
-) {
-    const saveEnd = end;
-    const savePos = pos;
-    const saveStartPos = startPos;
-    const saveTokenPos = tokenPos;
-    const saveToken = token;
-    const saveTokenValue = tokenValue;
-    const saveTokenFlags = tokenFlags;
-
-    const result = callback();
-
-    if (!result || alwaysRestore) {
-        end = saveEnd;
-        pos = savePos;
-        startPos = saveStartPos;
-        tokenPos = saveTokenPos;
-        token = saveToken;
-        tokenValue = saveTokenValue;
-        tokenFlags = saveTokenFlags;
+export namespace Scanner {
+    let theOnlyInstance: Scanner | undefined;
+
+    /** The shared scanner. Use createScanner() to get a scanner of your own. */
+    export function getScanner(): Scanner {
+        return theOnlyInstance = theOnlyInstance ?? createScanner();
     }
-    return result;
 }
 
-export class Scanner implements ScannerLike {
-    private static _theOnlyInstance: Scanner | undefined;
-    static getScanner(): Scanner {
-        return Scanner._theOnlyInstance =
-            Scanner._theOnlyInstance ?? new Scanner();
-    }
+/**
+ * Create a scanner. Every scanner keeps its own state, so that several of them
+ * could be used at the same time, e.g. by nested or interleaved parsing.
+ */
+export function createScanner(): Scanner {
+    let text = '';
+    let startPos = 0;
+    let tokenPos = 0;
+    let pos = 0;
+    let end = 0; // end position of text
+    let token: SyntaxKind = SyntaxKind.Unknown;
+    let tokenValue: string | undefined;
+    let tokenFlags: TokenFlags = TokenFlags.None;
+    let skipTrivia = true;
+    /** Whether the last token is trivia containing a line break, which precedes the next token */
+    let lineBreakInTrivia = false;
+    let onError: ErrorCallback | undefined;
+
+    return {
+        get text() { return text; },
+        get startPos() { return startPos; },
+        get tokenPos() { return tokenPos; },
+        get pos() { return pos; },
+        get token() { return token; },
+        /** lazy evaluation */
+        get tokenText() { return text.substring(tokenPos, pos); },
+        get tokenValue() { return tokenValue; },
+        get tokenFlags() { return tokenFlags; },
 
-    get text() { return text; }
-    resetText(newText: string) {
+        setTextRange,
+        resetText,
+        resetPos,
+        hasPrecedingLineBreak,
+        isIdentifier,
+        isReservedWord,
+        reScanGreaterToken,
+        reScanSlashToken,
+        reScanTemplateToken,
+        scan,
+        setOnError,
+        setSkipTrivia,
+        tryScan,
+        lookAhead,
+        scanRange,
+    };
+
+    function resetText(newText: string) {
         text = newText ?? '';
-        end = newText.length;
-        this.resetPos(0);
+        end = text.length;
+        resetPos(0);
     }
-    setTextRange(start: number, length?: number) {
+    function setTextRange(start: number, length?: number) {
         end = length === undefined
             ? text.length
             : start + length;
-        this.resetPos(start);
+        resetPos(start);
     }
 
-    get startPos() { return startPos; }
-
-    get tokenPos() { return tokenPos; }
-
-    get pos() { return pos; }
-    resetPos(newPos: number) {
+    function resetPos(newPos: number) {
         assert(newPos >= 0);
         pos = startPos = tokenPos = newPos;
         token = SyntaxKind.Unknown;
         tokenValue = undefined;
         tokenFlags = TokenFlags.None;
+        lineBreakInTrivia = false;
     }
 
-    get token() { return token; }
-
-    /** lazy evaluation */
-    get tokenText() {
-        return text.substring(tokenPos, pos);
-    }
-    get tokenValue() { return tokenValue; }
-    get tokenFlags() { return tokenFlags; }
-
-    hasPrecedingLineBreak() {
+    function hasPrecedingLineBreak() {
         return (tokenFlags & TokenFlags.PrecedingLineBreak) !== 0;
     }
-    isIdentifier() {
+    function isIdentifier() {
         return token === SyntaxKind.Identifier
             || token > SyntaxKindMarker.LastReservedWord;
     }
-    isReservedWord() {
+    function isReservedWord() {
         return token >= SyntaxKindMarker.FirstReservedWord
             && token <= SyntaxKindMarker.LastReservedWord;
     }
 
-    private onError: ErrorCallback | undefined;
-    setOnError(onError: ErrorCallback | undefined) {
-        this.onError = onError;
+    function setOnError(_onError: ErrorCallback | undefined) {
+        onError = _onError;
     }
 
+    function setSkipTrivia(_skipTrivia: boolean) {
+        skipTrivia = _skipTrivia;
+    }
+
+    /**
+     * Stores the current context then invokes the callback.
+     * If the callback returns false, the scanner is restored
+     * to the state it was in before helper function was called.
+     */
+    function protectContextHelper<T>(
+        callback: () => T,
+        alwaysRestore: boolean
+    ) {
+        const saveEnd = end;
+        const savePos = pos;
+        const saveStartPos = startPos;
+        const saveTokenPos = tokenPos;
+        const saveToken = token;
+        const saveTokenValue = tokenValue;
+        const saveTokenFlags = tokenFlags;
+        const saveLineBreakInTrivia = lineBreakInTrivia;
+
+        const result = callback();
+
+        if (!result || alwaysRestore) {
+            end = saveEnd;
+            pos = savePos;
+            startPos = saveStartPos;
+            tokenPos = saveTokenPos;
+            token = saveToken;
+            tokenValue = saveTokenValue;
+            tokenFlags = saveTokenFlags;
+            lineBreakInTrivia = saveLineBreakInTrivia;
+        }
+        return result;
+    }
 
-    tryScan<T>(callback: () => T): T {
+    function tryScan<T>(callback: () => T): T {
         return protectContextHelper(callback, false);
     }
 
-    lookAhead<T>(callback: () => T): T {
+    function lookAhead<T>(callback: () => T): T {
         return protectContextHelper(callback, true);
     }
 
-    scanRange<T>(start: number, length: number, callback: () => T): T {
+    function scanRange<T>(start: number, length: number, callback: () => T): T {
         return protectContextHelper(() => {
-            this.setTextRange(start, length);
+            setTextRange(start, length);
             return callback();
         }, true);
     }
 
 
-    private error(message: string, errPos = pos, length?: number) {
-        if (this.onError) {
+    function error(message: DiagnosticMessage, errPos = pos, length?: number, arg0?: string) {
+        if (onError) {
             const oldPos = pos;
             pos = errPos;
-            this.onError(message, length || 0);
+            onError(message, length || 0, arg0);
             pos = oldPos;
         }
     }
 
-    scan(): SyntaxKind {
+    function scan(): SyntaxKind {
         startPos = pos;
-        tokenFlags = TokenFlags.None;
+        // When trivia is returned as tokens, the line breaks in it still precede the next token
+        tokenFlags = lineBreakInTrivia ? TokenFlags.PrecedingLineBreak : TokenFlags.None;
+        scanToken();
+        lineBreakInTrivia = token >= SyntaxKindMarker.FirstTriviaToken &&
+            token <= SyntaxKindMarker.LastTriviaToken &&
+            hasPrecedingLineBreak();
+        return token;
+    }
+
+    function scanToken(): SyntaxKind {
         while (true) {
             tokenPos = pos;
             if (pos >= end) {
                 return token = SyntaxKind.EndOfFileToken;
             }
-            let ch = text.codePointAt(pos)!;
+            const ch = text.codePointAt(pos)!;
 
             switch (ch) {
                 case CharacterCodes.lineFeed:
                 case CharacterCodes.carriageReturn:
+                case CharacterCodes.lineSeparator:
+                case CharacterCodes.paragraphSeparator:
                     tokenFlags |= TokenFlags.PrecedingLineBreak;
-                    pos++;
-                    continue;
+                    if (skipTrivia) {
+                        pos++;
+                        continue;
+                    }
+                    if (ch === CharacterCodes.carriageReturn
+                        && text.charCodeAt(pos + 1) === CharacterCodes.lineFeed) {
+                        // consume both CR and LF
+                        pos += 2;
+                    } else {
+                        pos++;
+                    }
+                    return token = SyntaxKind.NewLineTrivia;
 
                 case CharacterCodes.tab:
                 case CharacterCodes.verticalTab:
                 case CharacterCodes.formFeed:
                 case CharacterCodes.space:
-                    pos++;
-                    continue;
+                    if (skipTrivia) {
+                        pos++;
+                        continue;
+                    }
+                    while (pos < end && isWhiteSpaceSingleLine(text.charCodeAt(pos))) {
+                        pos++;
+                    }
+                    return token = SyntaxKind.WhitespaceTrivia;
 
                 case CharacterCodes.exclamation:
                     if (text.charCodeAt(pos + 1) === CharacterCodes.equals) {
@@ -279,8 +348,7 @@ export class Scanner implements ScannerLike {
                     return token = SyntaxKind.MinusToken;
                 case CharacterCodes.dot:
                     if (isDigit(text.charCodeAt(pos + 1))) {
-                        tokenValue = this.scanNumber();
-                        return token = SyntaxKind.NumericLiteral;
+                        return token = scanNumber();
                     }
                     if (text.charCodeAt(pos + 1) === CharacterCodes.dot
                         && text.charCodeAt(pos + 2) === CharacterCodes.dot) {
@@ -299,7 +367,10 @@ export class Scanner implements ScannerLike {
                             pos++;
 
                         }
-                        continue;
+                        if (skipTrivia) {
+                            continue;
+                        }
+                        return token = SyntaxKind.SingleLineCommentTrivia;
                     }
                     // Multi-line comment
                     if (text.charCodeAt(pos + 1) === CharacterCodes.asterisk) {
@@ -319,9 +390,12 @@ export class Scanner implements ScannerLike {
                             pos++;
                         }
                         if (!commentClosed) {
-                            this.error('"*/" expected');
+                            error(Diagnostics._0_expected, undefined, undefined, '*/');
                         }
-                        continue;
+                        if (skipTrivia) {
+                            continue;
+                        }
+                        return token = SyntaxKind.MultiLineCommentTrivia;
                     }
                     if (text.charCodeAt(pos + 1) === CharacterCodes.equals) {
                         return pos += 2, token = SyntaxKind.SlashEqualsToken;
@@ -411,56 +485,65 @@ export class Scanner implements ScannerLike {
                     pos++;
                     return token = SyntaxKind.AtToken;
                 case CharacterCodes.backslash:
-                    this.error('Unicode escape is not supported yet');
+                    // Identifier starting with a unicode escape, e.g. `\u0061bc`
+                    const cookedChar = peekUnicodeEscape();
+                    if (cookedChar >= 0 && isIdentifierStart(cookedChar)) {
+                        tokenFlags |= TokenFlags.UnicodeEscape;
+                        tokenValue = scanUnicodeEscape() + scanIdentifierParts();
+                        return token = getIdentifierToken();
+                    }
+                    error(Diagnostics.Invalid_character);
                     pos++;
                     return token = SyntaxKind.Unknown;
 
                 // String literal
                 case CharacterCodes.doubleQuote:
                 case CharacterCodes.singleQuote:
-                    tokenValue = this.scanString();
+                    tokenValue = scanString();
                     return token = SyntaxKind.StringLiteral;
 
+                // Template literal
+                case CharacterCodes.backtick:
+                    return token = scanTemplateAndSetTokenValue();
+
                 case CharacterCodes._0:
                     if (pos + 2 < end && (text.charCodeAt(pos + 1) === CharacterCodes.X
                         || text.charCodeAt(pos + 1) === CharacterCodes.x)) {
                         pos += 2;
-                        tokenValue = this.scanHexDigits();
-                        if (!tokenValue) {
-                            this.error('Hexadecimal digit expected');
-                            tokenValue = '0';
+                        let digits = scanHexDigits(/* canHaveSeparators */ true);
+                        if (!digits) {
+                            error(Diagnostics.Hexadecimal_digit_expected);
+                            digits = '0';
                         }
-                        tokenValue = '' + parseInt(tokenValue, 16);
                         tokenFlags |= TokenFlags.HexSpecifier;
-                        return token = SyntaxKind.NumericLiteral;
+                        return token = scanBigIntSuffix(digits, 16);
                     } else if (pos + 2 < end && (text.charCodeAt(pos + 1) === CharacterCodes.B
                         || text.charCodeAt(pos + 1) === CharacterCodes.b)) {
                         pos += 2;
-                        tokenValue = this.scanBinaryDigits();
-                        if (!tokenValue) {
-                            this.error('Binary digit expected');
-                            tokenValue = '0';
+                        let digits = scanBinaryDigits();
+                        if (!digits) {
+                            error(Diagnostics.Binary_digit_expected);
+                            digits = '0';
                         }
-                        tokenValue = '' + parseInt(tokenValue, 2);
                         tokenFlags |= TokenFlags.BinarySpecifier;
-                        return token = SyntaxKind.NumericLiteral;
+                        return token = scanBigIntSuffix(digits, 2);
                     } else if (pos + 2 < end && (text.charCodeAt(pos + 1) === CharacterCodes.O
                         || text.charCodeAt(pos + 1) === CharacterCodes.o)) {
                         pos += 2;
-                        tokenValue = this.scanOctalDigits();
-                        if (!tokenValue) {
-                            this.error('Octal digit expected');
-                            tokenValue = '0';
+                        let digits = scanOctalDigits(/* canHaveSeparators */ true);
+                        if (!digits) {
+                            error(Diagnostics.Octal_digit_expected);
+                            digits = '0';
                         }
-                        tokenValue = '' + parseInt(tokenValue, 8);
                         tokenFlags |= TokenFlags.OctalSpecifier;
-                        return token = SyntaxKind.NumericLiteral;
+                        return token = scanBigIntSuffix(digits, 8);
                     }
                     // Try to parse as an octal
                     if (pos + 1 < end && isOctalDigit(text.charCodeAt(pos + 1))) {
-                        tokenValue = this.scanOctalDigits();
+                        tokenValue = scanOctalDigits(/* canHaveSeparators */ false);
                         tokenValue = '' + parseInt(tokenValue, 8);
                         tokenFlags |= TokenFlags.Octal;
+                        checkNoBigIntSuffix(Diagnostics.A_bigint_literal_cannot_have_a_leading_zero);
                         return token = SyntaxKind.NumericLiteral;
                     }
 
@@ -475,31 +558,27 @@ export class Scanner implements ScannerLike {
                 case CharacterCodes._7:
                 case CharacterCodes._8:
                 case CharacterCodes._9:
-                    tokenValue = this.scanNumber();
-                    return token = SyntaxKind.NumericLiteral;
+                    return token = scanNumber();
 
                 default:
                     // Identifier or keyword
                     // Recognized as keyword by default. Use isIdentifier() to check if token
                     // could be a identifier when a keyword is not expected.
                     if (isIdentifierStart(ch)) {
-                        pos += 1;
-                        while (pos < end && isIdentifierPart(ch = text.codePointAt(pos)!)) {
-                            pos += 1;
-                        }
-                        tokenValue = text.substring(tokenPos, pos);
-                        return token = checkReservedWord(tokenValue);
+                        pos += charSize(ch);
+                        tokenValue = text.substring(tokenPos, pos) + scanIdentifierParts();
+                        return token = getIdentifierToken();
                     }
 
                     // Cannot parse
-                    this.error('Invalid character');
-                    pos += 1;
+                    error(Diagnostics.Invalid_character);
+                    pos += charSize(ch);
                     return token = SyntaxKind.Unknown;
             }
         }
     }
 
-    private scanString(): string {
+    function scanString(): string {
         const quote = text.charCodeAt(pos);
         pos++;
         let result = '';
@@ -507,7 +586,8 @@ export class Scanner implements ScannerLike {
         while (true) {
             if (pos >= end) {
                 result += text.substring(start, pos);
-                this.error('Unterminated string literal');
+                tokenFlags |= TokenFlags.Unterminated;
+                error(Diagnostics.Unterminated_string_literal);
                 break;
             }
             const ch = text.charCodeAt(pos);
@@ -518,13 +598,14 @@ export class Scanner implements ScannerLike {
             }
             if (ch === CharacterCodes.backslash) {
                 result += text.substring(start, pos);
-                result += this.scanEscapeSequence();
+                result += scanEscapeSequence();
                 start = pos;
                 continue;
             }
             if (isLineBreak(ch)) {
                 result += text.substring(start, pos);
-                this.error('Unterminated string literal');
+                tokenFlags |= TokenFlags.Unterminated;
+                error(Diagnostics.Unterminated_string_literal);
                 break;
             }
             pos++;
@@ -532,17 +613,112 @@ export class Scanner implements ScannerLike {
         return result;
     }
 
-    scanEscapeSequence(): string {
+    /**
+     * Scan a template literal part, starting at either '`' or '}',
+     * and set tokenValue to its cooked text.
+     */
+    function scanTemplateAndSetTokenValue(): SyntaxKind {
+        const startedWithBacktick = text.charCodeAt(pos) === CharacterCodes.backtick;
+        pos++;
+        let start = pos;
+        let contents = '';
+        let resultingToken: SyntaxKind;
+
+        while (true) {
+            if (pos >= end) {
+                contents += text.substring(start, pos);
+                tokenFlags |= TokenFlags.Unterminated;
+                error(Diagnostics.Unterminated_template_literal);
+                resultingToken = startedWithBacktick
+                    ? SyntaxKind.NoSubstitutionTemplateLiteral
+                    : SyntaxKind.TemplateTail;
+                break;
+            }
+            const ch = text.charCodeAt(pos);
+
+            // '`'
+            if (ch === CharacterCodes.backtick) {
+                contents += text.substring(start, pos);
+                pos++;
+                resultingToken = startedWithBacktick
+                    ? SyntaxKind.NoSubstitutionTemplateLiteral
+                    : SyntaxKind.TemplateTail;
+                break;
+            }
+            // '${'
+            if (ch === CharacterCodes.$ && text.charCodeAt(pos + 1) === CharacterCodes.openBrace) {
+                contents += text.substring(start, pos);
+                pos += 2;
+                resultingToken = startedWithBacktick
+                    ? SyntaxKind.TemplateHead
+                    : SyntaxKind.TemplateMiddle;
+                break;
+            }
+            if (ch === CharacterCodes.backslash) {
+                contents += text.substring(start, pos);
+                contents += scanEscapeSequence(/* isTemplate */ true);
+                start = pos;
+                continue;
+            }
+            // <CR><LF> and <CR> are normalized to <LF> in the cooked text
+            if (ch === CharacterCodes.carriageReturn) {
+                contents += text.substring(start, pos);
+                pos++;
+                if (text.charCodeAt(pos) === CharacterCodes.lineFeed) {
+                    pos++;
+                }
+                contents += '\n';
+                start = pos;
+                continue;
+            }
+            pos++;
+        }
+
+        tokenValue = contents;
+        return resultingToken;
+    }
+
+    /**
+     * Scan an escape sequence starting at the backslash, and return its cooked text.
+     * Legacy octal escapes like `\012` are reported, and are never allowed in templates.
+     */
+    function scanEscapeSequence(isTemplate = false): string {
+        const start = pos;
         pos++;
         if (pos >= end) {
-            this.error('Unexpected end of text');
+            error(Diagnostics.Unexpected_end_of_text);
             return '';
         }
         const ch = text.charCodeAt(pos);
         pos++;
         switch (ch) {
             case CharacterCodes._0:
-                return '\0';
+                // '\0' is a null character only if not followed by a digit
+                if (!isDigit(text.charCodeAt(pos))) {
+                    return '\0';
+                }
+            // Intentional fall-through, as a legacy octal escape
+            case CharacterCodes._1:
+            case CharacterCodes._2:
+            case CharacterCodes._3:
+            case CharacterCodes._4:
+            case CharacterCodes._5:
+            case CharacterCodes._6:
+            case CharacterCodes._7:
+                // \0 to \377
+                const maxDigits = ch <= CharacterCodes._3 ? 3 : 2;
+                while (pos - start - 1 < maxDigits && isOctalDigit(text.charCodeAt(pos))) {
+                    pos++;
+                }
+                error(isTemplate
+                    ? Diagnostics.Octal_escape_sequences_are_not_allowed_in_template_strings
+                    : Diagnostics.Octal_escape_sequences_are_not_allowed_use_the_syntax_x_instead,
+                    start, pos - start);
+                return String.fromCharCode(parseInt(text.substring(start + 1, pos), 8));
+            case CharacterCodes._8:
+            case CharacterCodes._9:
+                error(Diagnostics.Escape_sequences_8_and_9_are_not_allowed, start, pos - start);
+                return String.fromCharCode(ch);
             case CharacterCodes.b:
                 return '\b';
             case CharacterCodes.t:
@@ -559,23 +735,148 @@ export class Scanner implements ScannerLike {
                 return '\'';
             case CharacterCodes.doubleQuote:
                 return '\"';
-            default:
-                this.error('Expected escape char');
+            case CharacterCodes.x:
+                // '\xDD'
+                const hexValue = scanExactNumberOfHexDigits(2);
+                if (hexValue < 0) {
+                    error(Diagnostics.Hexadecimal_digit_expected, start, pos - start);
+                    return text.substring(start, pos);
+                }
+                return String.fromCharCode(hexValue);
+            case CharacterCodes.u:
+                // '\uDDDD' or '\u{D...}'
+                pos = start;
+                return scanUnicodeEscape();
+
+            // Line continuation, contributes nothing to the cooked text
+            case CharacterCodes.carriageReturn:
+                if (text.charCodeAt(pos) === CharacterCodes.lineFeed) {
+                    pos++;
+                }
+            // Intentional fall-through
+            case CharacterCodes.lineFeed:
+            case CharacterCodes.lineSeparator:
+            case CharacterCodes.paragraphSeparator:
                 return '';
+            default:
+                // Any other character stands for itself, e.g. '\\', '\`', '\$'
+                const codePoint = text.codePointAt(pos - 1)!;
+                pos = pos - 1 + charSize(codePoint);
+                return String.fromCodePoint(codePoint);
         }
     }
 
-    private scanNumber(): string {
+    /**
+     * Scan a unicode escape starting at the backslash, i.e. `\uDDDD` or `\u{D...}`.
+     * Returns the raw text if the escape is invalid.
+     */
+    function scanUnicodeEscape(): string {
         const start = pos;
+        const codePoint = scanUnicodeEscapeCodePoint(/* reportErrors */ true);
+        return codePoint >= 0
+            ? String.fromCodePoint(codePoint)
+            : text.substring(start, pos);
+    }
 
-        const mainFragment = this.scanNumberFragment();
+    function scanUnicodeEscapeCodePoint(reportErrors: boolean): number {
+        const start = pos;
+        pos += 2; // '\u'
+        if (text.charCodeAt(pos) !== CharacterCodes.openBrace) {
+            const value = scanExactNumberOfHexDigits(4);
+            if (value < 0 && reportErrors) {
+                error(Diagnostics.Hexadecimal_digit_expected, start, pos - start);
+            }
+            return value;
+        }
+
+        pos++;
+        const digitsStart = pos;
+        const digits = scanHexDigits();
+        let value = digits ? parseInt(digits, 16) : -1;
+        if (value < 0) {
+            if (reportErrors) error(Diagnostics.Hexadecimal_digit_expected, digitsStart, 0);
+        } else if (value > 0x10FFFF) {
+            if (reportErrors) {
+                error(Diagnostics.An_extended_Unicode_escape_value_must_be_between_0x0_and_0x10FFFF_inclusive,
+                    digitsStart, pos - digitsStart);
+            }
+            value = -1;
+        }
+        if (text.charCodeAt(pos) === CharacterCodes.closeBrace) {
+            pos++;
+        } else {
+            if (reportErrors) error(Diagnostics.Unterminated_Unicode_escape_sequence, start, pos - start);
+            value = -1;
+        }
+        return value;
+    }
+
+    /** Get the code point of the unicode escape at current position without moving forward, or -1 */
+    function peekUnicodeEscape(): number {
+        if (text.charCodeAt(pos) === CharacterCodes.backslash
+            && text.charCodeAt(pos + 1) === CharacterCodes.u) {
+            const start = pos;
+            const value = scanUnicodeEscapeCodePoint(/* reportErrors */ false);
+            pos = start;
+            return value;
+        }
+        return -1;
+    }
+
+    /** Scan the rest of an identifier, which may contain unicode escapes */
+    function scanIdentifierParts(): string {
+        let result = '';
+        let start = pos;
+        while (pos < end) {
+            const ch = text.codePointAt(pos)!;
+            if (isIdentifierPart(ch)) {
+                pos += charSize(ch);
+                continue;
+            }
+            if (ch !== CharacterCodes.backslash) break;
+
+            const cookedChar = peekUnicodeEscape();
+            if (!(cookedChar >= 0 && isIdentifierPart(cookedChar))) break;
+
+            tokenFlags |= TokenFlags.UnicodeEscape;
+            result += text.substring(start, pos);
+            result += scanUnicodeEscape();
+            start = pos;
+        }
+        result += text.substring(start, pos);
+        return result;
+    }
+
+    function getIdentifierToken(): SyntaxKind {
+        const kind = checkReservedWord(tokenValue!);
+        if (kind !== SyntaxKind.Identifier && tokenFlags & TokenFlags.UnicodeEscape) {
+            error(Diagnostics.Keywords_cannot_contain_escape_characters, tokenPos, pos - tokenPos);
+        }
+        // `$$` is all the ports of a node, and `$name` is a single port, while `$` alone is an identifier
+        if (kind === SyntaxKind.Identifier && tokenValue!.length > 1
+            && tokenValue!.charCodeAt(0) === CharacterCodes.$) {
+            return tokenValue === '$$' ? SyntaxKind.AllPortsToken : SyntaxKind.PortIdentifier;
+        }
+        return kind;
+    }
+
+    /** Scan a decimal number, which may be a BigInt, and set tokenValue. */
+    function scanNumber(): SyntaxKind {
+        const start = pos;
+
+        const mainFragment = scanNumberFragment();
+        // `0_1` would read as a legacy octal literal with a separator
+        if (mainFragment.length > 1 && text.charCodeAt(start) === CharacterCodes._0
+            && text.charCodeAt(start + 1) === CharacterCodes._) {
+            error(Diagnostics.Numeric_separators_are_not_allowed_here, start + 1, 1);
+        }
 
         let decimalFragment: string | undefined;
         let scientificFragment: string | undefined;
 
         if (text.charCodeAt(pos) === CharacterCodes.dot) {
             pos++;
-            decimalFragment = this.scanNumberFragment();
+            decimalFragment = scanNumberFragment();
         }
         let _end = pos;
         if (text.charCodeAt(pos) === CharacterCodes.E
@@ -588,57 +889,132 @@ export class Scanner implements ScannerLike {
                 pos++;
             }
             const preNumericPart = pos;
-            const finalFragment = this.scanNumberFragment();
+            const finalFragment = scanNumberFragment();
             if (!finalFragment) {
-                this.error('Digit expected');
+                error(Diagnostics.Digit_expected);
             } else {
                 scientificFragment = text.substring(_end, preNumericPart) + finalFragment;
                 _end = pos;
             }
         }
-        const result = text.substring(start, _end);
+
+        let result: string;
+        if (tokenFlags & TokenFlags.ContainsSeparator) {
+            result = mainFragment;
+            if (decimalFragment !== undefined) {
+                result += '.' + decimalFragment;
+            }
+            if (scientificFragment !== undefined) {
+                result += scientificFragment;
+            }
+        } else {
+            result = text.substring(start, _end);
+        }
 
         if (decimalFragment !== undefined || tokenFlags & TokenFlags.Scientific) {
-            return '' + +result;
+            checkNoBigIntSuffix(Diagnostics.A_bigint_literal_must_be_an_integer);
+            tokenValue = '' + +result;
+            return SyntaxKind.NumericLiteral;
+        } else if (mainFragment.length > 1 && text.charCodeAt(start) === CharacterCodes._0) {
+            // A decimal with a leading zero such as `08`, which is not a legacy octal literal
+            checkNoBigIntSuffix(Diagnostics.A_bigint_literal_cannot_have_a_leading_zero);
+            tokenValue = '' + +result;
+            return SyntaxKind.NumericLiteral;
         } else {
-            return result;
+            return scanBigIntSuffix(result, 10);
         }
     }
 
-    // Several short function, runtime will inline them
-    private scanNumberFragment(): string {
-        const start = pos;
-        while (isDigit(text.charCodeAt(pos))) {
+    /**
+     * Given the digits of an integer literal without separators, set tokenValue and
+     * return BigIntLiteral if it is followed by the `n` suffix, or NumericLiteral otherwise.
+     */
+    function scanBigIntSuffix(digits: string, base: 2 | 8 | 10 | 16): SyntaxKind {
+        if (text.charCodeAt(pos) === CharacterCodes.n) {
             pos++;
+            tokenValue = parsePseudoBigInt(digits, base) + 'n';
+            return SyntaxKind.BigIntLiteral;
         }
-        return text.substring(start, pos);
+        tokenValue = base === 10 ? digits : '' + parseInt(digits, base);
+        return SyntaxKind.NumericLiteral;
     }
 
-    private scanHexDigits(): string {
-        const start = pos;
-        while (isHexDigit(text.charCodeAt(pos))) {
+    /** Reports the `n` suffix on a literal that cannot be a BigInt, and skips it */
+    function checkNoBigIntSuffix(message: DiagnosticMessage) {
+        if (text.charCodeAt(pos) === CharacterCodes.n) {
+            error(message, tokenPos, pos + 1 - tokenPos);
             pos++;
         }
-        return text.substring(start, pos);
     }
 
-    private scanBinaryDigits(): string {
+    // Several short function, runtime will inline them
+    function scanNumberFragment(): string {
+        return scanDigits(isDigit, /* canHaveSeparators */ true);
+    }
+
+    /** Returns -1 if there are less than `count` hex digits */
+    function scanExactNumberOfHexDigits(count: number): number {
         const start = pos;
-        while (isBinaryDigit(text.charCodeAt(pos))) {
+        while (pos - start < count && isHexDigit(text.charCodeAt(pos))) {
             pos++;
         }
-        return text.substring(start, pos);
+        return pos - start < count
+            ? -1
+            : parseInt(text.substring(start, pos), 16);
     }
 
-    private scanOctalDigits(): string {
-        const start = pos;
-        while (isOctalDigit(text.charCodeAt(pos))) {
+    function scanHexDigits(canHaveSeparators = false): string {
+        return scanDigits(isHexDigit, canHaveSeparators);
+    }
+
+    function scanBinaryDigits(): string {
+        return scanDigits(isBinaryDigit, /* canHaveSeparators */ true);
+    }
+
+    function scanOctalDigits(canHaveSeparators: boolean): string {
+        return scanDigits(isOctalDigit, canHaveSeparators);
+    }
+
+    /**
+     * Scan digits, and return them with numeric separators removed.
+     * A separator is only allowed between two digits, e.g. `1_000`, but not `1__000` or `1000_`.
+     */
+    function scanDigits(isValidDigit: (ch: number) => boolean, canHaveSeparators: boolean): string {
+        let start = pos;
+        let allowSeparator = false;
+        let isPreviousTokenSeparator = false;
+        let result = '';
+        while (true) {
+            const ch = text.charCodeAt(pos);
+            if (ch === CharacterCodes._ && canHaveSeparators) {
+                tokenFlags |= TokenFlags.ContainsSeparator;
+                if (allowSeparator) {
+                    allowSeparator = false;
+                    isPreviousTokenSeparator = true;
+                } else if (isPreviousTokenSeparator) {
+                    error(Diagnostics.Multiple_consecutive_numeric_separators_are_not_permitted, pos, 1);
+                } else {
+                    error(Diagnostics.Numeric_separators_are_not_allowed_here, pos, 1);
+                }
+                result += text.substring(start, pos);
+                pos++;
+                start = pos;
+                continue;
+            }
+            if (!isValidDigit(ch)) {
+                break;
+            }
+            allowSeparator = true;
+            isPreviousTokenSeparator = false;
             pos++;
         }
-        return text.substring(start, pos);
+        if (isPreviousTokenSeparator) {
+            error(Diagnostics.Numeric_separators_are_not_allowed_here, pos - 1, 1);
+        }
+        return result + text.substring(start, pos);
     }
 
-    public reScanGreaterToken(): SyntaxKind {
+    function reScanGreaterToken(): SyntaxKind {
         if (token === SyntaxKind.GreaterThanToken) {
             if (text.charCodeAt(pos) === CharacterCodes.greaterThan) {
                 if (text.charCodeAt(pos + 1) === CharacterCodes.greaterThan) {
@@ -660,4 +1036,307 @@ export class Scanner implements ScannerLike {
         }
         return token;
     }
+
+    function reScanSlashToken(): SyntaxKind {
+        if (token !== SyntaxKind.SlashToken && token !== SyntaxKind.SlashEqualsToken) {
+            return token;
+        }
+        let p = tokenPos + 1;
+        let inEscape = false;
+        let inCharacterClass = false;
+        while (true) {
+            // If we reach the end of a file, or hit a newline, then this is an unterminated
+            // regex.  Report error and return what we have so far.
+            if (p >= end || isLineBreak(text.charCodeAt(p))) {
+                tokenFlags |= TokenFlags.Unterminated;
+                error(Diagnostics.Unterminated_regular_expression_literal, tokenPos, p - tokenPos);
+                break;
+            }
+            const ch = text.charCodeAt(p);
+            if (inEscape) {
+                // Parsing an escape character;
+                // reset the flag and just advance to the next char.
+                inEscape = false;
+            } else if (ch === CharacterCodes.slash && !inCharacterClass) {
+                // A slash within a character class is permissible,
+                // but in general it signals the end of the regexp literal.
+                p++;
+                break;
+            } else if (ch === CharacterCodes.openBracket) {
+                inCharacterClass = true;
+            } else if (ch === CharacterCodes.backslash) {
+                inEscape = true;
+            } else if (ch === CharacterCodes.closeBracket) {
+                inCharacterClass = false;
+            }
+            p++;
+        }
+        pos = p;
+        scanRegularExpressionFlags();
+        tokenValue = text.substring(tokenPos, pos);
+        return token = SyntaxKind.RegularExpressionLiteral;
+    }
+
+    function scanRegularExpressionFlags() {
+        const flagsStart = pos;
+        while (pos < end && isIdentifierPart(text.charCodeAt(pos))) {
+            const flag = text.charAt(pos);
+            if (regularExpressionFlags.indexOf(flag) < 0) {
+                error(Diagnostics.Unknown_regular_expression_flag, pos, 1);
+            } else if (text.substring(flagsStart, pos).indexOf(flag) >= 0) {
+                error(Diagnostics.Duplicated_regular_expression_flag, pos, 1);
+            } else if (flag === 'u' && text.substring(flagsStart, pos).indexOf('v') >= 0
+                || flag === 'v' && text.substring(flagsStart, pos).indexOf('u') >= 0) {
+                error(Diagnostics.The_u_and_v_regular_expression_flags_cannot_be_used_together, pos, 1);
+            }
+            pos++;
+        }
+    }
+
+    function reScanTemplateToken(): SyntaxKind {
+        assert(token === SyntaxKind.CloseBraceToken, '\'reScanTemplateToken\' should only be called on a \'}\'');
+        pos = tokenPos;
+        return token = scanTemplateAndSetTokenValue();
+    }
+}
+
+
+/**
+ * Scan the whole text into tokens, ending with the EndOfFileToken. Without a parser to
+ * tell, a `/` starts a regular expression unless it follows the end of an operand, and
+ * a `}` closing a template substitution continues the template.
+ */
+export function tokenize(text: string, skipTrivia = true): TokenInfo[] {
+    const scanner = createScanner();
+    scanner.resetText(text);
+    scanner.setSkipTrivia(skipTrivia);
+
+    const tokens: TokenInfo[] = [];
+    // For each open brace, whether it is the start of a template substitution
+    const braceStack: boolean[] = [];
+    let lastNonTriviaToken = SyntaxKind.Unknown;
+    while (true) {
+        let kind = scanner.scan();
+        switch (kind) {
+            case SyntaxKind.SlashToken:
+            case SyntaxKind.SlashEqualsToken:
+                if (!isEndOfOperand(lastNonTriviaToken)) {
+                    kind = scanner.reScanSlashToken();
+                }
+                break;
+            case SyntaxKind.OpenBraceToken:
+                braceStack.push(false);
+                break;
+            case SyntaxKind.TemplateHead:
+                braceStack.push(true);
+                break;
+            case SyntaxKind.CloseBraceToken:
+                if (braceStack.pop()) {
+                    kind = scanner.reScanTemplateToken();
+                    if (kind === SyntaxKind.TemplateMiddle) {
+                        braceStack.push(true);
+                    }
+                }
+                break;
+        }
+
+        const hasValue = kind === SyntaxKind.Identifier || kind === SyntaxKind.PortIdentifier
+            || kind >= SyntaxKindMarker.FirstLiteralToken && kind <= SyntaxKindMarker.LastTemplateToken;
+        tokens.push({
+            kind,
+            text: scanner.tokenText,
+            value: hasValue ? scanner.tokenValue : undefined,
+            pos: scanner.tokenPos,
+            end: scanner.pos,
+            flags: scanner.tokenFlags,
+        });
+
+        if (kind === SyntaxKind.EndOfFileToken) {
+            return tokens;
+        }
+        if (kind < SyntaxKindMarker.FirstTriviaToken || kind > SyntaxKindMarker.LastTriviaToken) {
+            lastNonTriviaToken = kind;
+        }
+    }
+}
+
+/** Whether a `/` after the token is a division rather than a regular expression */
+function isEndOfOperand(kind: SyntaxKind) {
+    switch (kind) {
+        case SyntaxKind.Identifier:
+        case SyntaxKind.PortIdentifier:
+        case SyntaxKind.AllPortsToken:
+        case SyntaxKind.ThisKeyword:
+        case SyntaxKind.SuperKeyword:
+        case SyntaxKind.TrueKeyword:
+        case SyntaxKind.FalseKeyword:
+        case SyntaxKind.NullKeyword:
+        case SyntaxKind.CloseParenToken:
+        case SyntaxKind.CloseBracketToken:
+        case SyntaxKind.CloseBraceToken:
+        case SyntaxKind.PlusPlusToken:
+        case SyntaxKind.MinusMinusToken:
+        case SyntaxKind.TemplateTail:
+            return true;
+        case SyntaxKind.AwaitKeyword: // `await /re/`
+            return false;
+        default:
+            // Contextual keywords are identifiers here, e.g. `of / 2`, `state / total`
+            return kind >= SyntaxKindMarker.FirstContextualKeyword && kind <= SyntaxKindMarker.LastKeyword ||
+                kind >= SyntaxKindMarker.FirstLiteralToken && kind <= SyntaxKindMarker.LastLiteralToken;
+    }
+}
+
+/**
+ * Get the start position of each line. A line ends with CR, LF, CRLF,
+ * U+2028 (line separator) or U+2029 (paragraph separator).
+ */
+export function computeLineStarts(text: string): number[] {
+    const result: number[] = [];
+    let pos = 0;
+    let lineStart = 0;
+    while (pos < text.length) {
+        const ch = text.charCodeAt(pos);
+        pos++;
+        switch (ch) {
+            case CharacterCodes.carriageReturn:
+                if (text.charCodeAt(pos) === CharacterCodes.lineFeed) {
+                    pos++;
+                }
+            // Intentional fall-through
+            case CharacterCodes.lineFeed:
+            case CharacterCodes.lineSeparator:
+            case CharacterCodes.paragraphSeparator:
+                result.push(lineStart);
+                lineStart = pos;
+                break;
+        }
+    }
+    result.push(lineStart);
+    return result;
+}
+
+export function getLineStarts(sourceFile: SourceFile): readonly number[] {
+    return sourceFile.lineMap || (sourceFile.lineMap = computeLineStarts(sourceFile.text));
+}
+
+export function computeLineAndCharacterOfPosition(lineStarts: readonly number[], position: number): LineAndCharacter {
+    // binary search for the last line starting at or before `position`
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const middle = low + ((high - low + 1) >> 1);
+        if (lineStarts[middle] <= position) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return {
+        line: low,
+        character: position - lineStarts[low],
+    };
+}
+
+export function getLineAndCharacterOfPosition(sourceFile: SourceFile, position: number): LineAndCharacter {
+    return computeLineAndCharacterOfPosition(getLineStarts(sourceFile), position);
+}
+
+export function computePositionOfLineAndCharacter(lineStarts: readonly number[], line: number, character: number): number {
+    assert(line >= 0 && line < lineStarts.length, `Bad line number. Line: ${line}, lineStarts.length: ${lineStarts.length}.`);
+    return lineStarts[line] + character;
+}
+
+export function getPositionOfLineAndCharacter(sourceFile: SourceFile, line: number, character: number): number {
+    return computePositionOfLineAndCharacter(getLineStarts(sourceFile), line, character);
+}
+
+
+/**
+ * Get the comments starting from `pos` up to the next token, e.g. the doc comments of
+ * a declaration. Comments on the same line before the first line break are excluded, as
+ * they are the trailing comments of the previous token, unless `pos` is 0.
+ */
+export function getLeadingCommentRanges(text: string, pos: number): CommentRange[] | undefined {
+    return collectCommentRanges(text, pos, /* trailing */ false);
+}
+
+/** Get the comments starting from `pos` up to the next line break. */
+export function getTrailingCommentRanges(text: string, pos: number): CommentRange[] | undefined {
+    return collectCommentRanges(text, pos, /* trailing */ true);
+}
+
+/** Get the leading comments of a node, as `node.pos` is before the trivia of its first token. */
+export function getLeadingCommentRangesOfNode(node: Node, sourceFile: SourceFile): CommentRange[] | undefined {
+    return getLeadingCommentRanges(sourceFile.text, node.pos);
+}
+
+function collectCommentRanges(text: string, pos: number, trailing: boolean): CommentRange[] | undefined {
+    let ranges: CommentRange[] | undefined;
+    let collecting = trailing || pos === 0;
+
+    scan: while (pos >= 0 && pos < text.length) {
+        const ch = text.charCodeAt(pos);
+        switch (ch) {
+            case CharacterCodes.carriageReturn:
+                if (text.charCodeAt(pos + 1) === CharacterCodes.lineFeed) {
+                    pos++;
+                }
+            // Intentional fall-through
+            case CharacterCodes.lineFeed:
+            case CharacterCodes.lineSeparator:
+            case CharacterCodes.paragraphSeparator:
+                pos++;
+                if (trailing) {
+                    break scan;
+                }
+                collecting = true;
+                if (ranges && ranges.length) {
+                    ranges[ranges.length - 1].hasTrailingNewLine = true;
+                }
+                continue;
+            case CharacterCodes.tab:
+            case CharacterCodes.verticalTab:
+            case CharacterCodes.formFeed:
+            case CharacterCodes.space:
+                pos++;
+                continue;
+            case CharacterCodes.slash:
+                const nextChar = text.charCodeAt(pos + 1);
+                if (nextChar !== CharacterCodes.slash && nextChar !== CharacterCodes.asterisk) {
+                    break scan;
+                }
+                const kind = nextChar === CharacterCodes.slash
+                    ? SyntaxKind.SingleLineCommentTrivia
+                    : SyntaxKind.MultiLineCommentTrivia;
+                const startPos = pos;
+                let hasTrailingNewLine = false;
+                pos += 2;
+                if (kind === SyntaxKind.SingleLineCommentTrivia) {
+                    while (pos < text.length) {
+                        if (isLineBreak(text.charCodeAt(pos))) {
+                            hasTrailingNewLine = true;
+                            break;
+                        }
+                        pos++;
+                    }
+                } else {
+                    while (pos < text.length) {
+                        if (text.charCodeAt(pos) === CharacterCodes.asterisk
+                            && text.charCodeAt(pos + 1) === CharacterCodes.slash) {
+                            pos += 2;
+                            break;
+                        }
+                        pos++;
+                    }
+                }
+                if (collecting) {
+                    (ranges || (ranges = [])).push({ kind, pos: startPos, end: pos, hasTrailingNewLine });
+                }
+                continue;
+            default:
+                break scan;
+        }
+    }
+    return ranges;
 }
@@ -1,15 +1,33 @@
-import chalk from 'chalk';
 import * as lang from './types';
 import {
-    Expression, Node, NodeList, NodeFlags,
+    Diagnostic, DiagnosticMessage, Expression, Node, NodeList, NodeFlags,
     ParsingContext, SourceFile, Statement, SyntaxKind,
     SyntaxKindMarker, Token
 } from './types';
-import { Scanner } from './lexical';
-import { assert } from './util';
+import { Diagnostics } from './diagnostic-messages';
+import { createScanner } from './lexical';
+import { assert, createFileDiagnostic } from './util';
+
+export interface Parser {
+    parseSourceFile(fileName: string, sourceText: string): SourceFile;
+}
 
 export namespace Parser {
-    const scanner = Scanner.getScanner();
+    /** Parses the text with a parser of its own. */
+    export function parseSourceFile(
+        fileName: string,
+        sourceText: string
+    ): SourceFile {
+        return createParser().parseSourceFile(fileName, sourceText);
+    }
+}
+
+/**
+ * Create a parser. Every parser owns its scanner and parsing state, so that
+ * parsers do not interfere with each other.
+ */
+export function createParser(): Parser {
+    const scanner = createScanner();
 
     const NodeInitializer: new (kind: SyntaxKind, pos?: number, end?: number) => Node =
         function (this: Node, kind: SyntaxKind, pos: number, end: number) {
@@ -35,10 +53,14 @@ export namespace Parser {
     let sourceText: string;
     let nodeCount: number;
     let contextFlags: NodeFlags;
+    let parseDiagnostics: Diagnostic[];
+    let skippedTokens: Array<Token<SyntaxKind>>;
 
     let parsingContext: ParsingContext;
 
-    export function parseSourceFile(
+    return { parseSourceFile };
+
+    function parseSourceFile(
         fileName: string,
         sourceText: string
     ): SourceFile {
@@ -53,11 +75,14 @@ export namespace Parser {
 
         parsingContext = 0;
         nodeCount = 0;
+        parseDiagnostics = [];
+        skippedTokens = [];
 
         contextFlags = NodeFlags.None;
 
         scanner.resetText(sourceText);
         scanner.setOnError(scanError);
+        scanner.setSkipTrivia(true);
     }
 
     function clearState() {
@@ -66,13 +91,12 @@ export namespace Parser {
 
         sourceFile = undefined!;
         sourceText = undefined!;
+        parseDiagnostics = undefined!;
+        skippedTokens = undefined!;
     }
 
-    function scanError(message: string, length: number) {
-        console.log(chalk.red(
-            message + ' (SourceFile = ' + sourceFile.fileName + ', start = ' + scanner.pos +
-            ', length = ' + length + ')'
-        ));
+    function scanError(message: DiagnosticMessage, length: number, arg0?: string) {
+        parseErrorAtPosition(scanner.pos, length, message, arg0);
     }
 
 
@@ -87,6 +111,10 @@ export namespace Parser {
         assert(token === SyntaxKind.EndOfFileToken);
 
         sourceFile.nodeCount = nodeCount;
+        sourceFile.parseDiagnostics = parseDiagnostics;
+        if (skippedTokens.length) {
+            sourceFile.skippedTokens = skippedTokens;
+        }
 
         return sourceFile;
     }
@@ -102,17 +130,24 @@ export namespace Parser {
         return sourceFile;
     }
 
-    function error(msg: string) {
-        console.error(chalk.red(msg));
-        console.error(chalk.red(
-            'File name:' + sourceFile.fileName + '\n' +
-            'Position:' + scanner.tokenPos
-        ));
+    /** Report an error at the current token */
+    function error(message: DiagnosticMessage, ...args: Array<string | number>) {
+        parseErrorAtPosition(scanner.tokenPos, scanner.pos - scanner.tokenPos, message, ...args);
+    }
+
+    function parseErrorAtPosition(start: number, length: number, message: DiagnosticMessage, ...args: Array<string | number | undefined>) {
+        // Don't report another error if it would just be at the same position as the last error
+        const lastError = parseDiagnostics.length ? parseDiagnostics[parseDiagnostics.length - 1] : undefined;
+        if (!lastError || start !== lastError.start) {
+            parseDiagnostics.push(createFileDiagnostic(sourceFile, start, length, message, ...args));
+        }
     }
 
     function protectContextHelper<T>(callback: () => T, alwaysRestore: boolean) {
         const saveToken = token;
         const saveContextFlags = contextFlags;
+        const saveParseDiagnosticsLength = parseDiagnostics.length;
+        const saveSkippedTokensLength = skippedTokens.length;
 
         const result = alwaysRestore
             ? scanner.lookAhead(callback)
@@ -122,6 +157,8 @@ export namespace Parser {
 
         if (!result || alwaysRestore) {
             token = saveToken;
+            parseDiagnostics.length = saveParseDiagnosticsLength;
+            skippedTokens.length = saveSkippedTokensLength;
         }
 
         return result;
@@ -160,7 +197,7 @@ export namespace Parser {
             return true;
         }
 
-        error('Unexpected ' + SyntaxKind[token] + ', expected ' + SyntaxKind[kind]);
+        error(Diagnostics.Unexpected_0_expected_1, SyntaxKind[token], SyntaxKind[kind]);
     }
     function parseOptional(kind: SyntaxKind): boolean {
         if (token === kind) {
@@ -169,12 +206,11 @@ export namespace Parser {
         }
         return false;
     }
-    function parseExpectedToken<TKind extends SyntaxKind>(t: TKind): Token<TKind> | undefined {
+    function parseExpectedToken<TKind extends SyntaxKind>(t: TKind): Token<TKind> {
         if (token === t) {
             return parseTokenNode<Token<TKind>>();
         }
-
-        error('Unexpected ' + SyntaxKind[t] + ', expected ' + SyntaxKind[t]);
+        return createMissingNode<Token<TKind>>(t, Diagnostics.Unexpected_0_expected_1, SyntaxKind[token], SyntaxKind[t]);
     }
     function parseOptionalToken<TKind extends SyntaxKind>(t: TKind): Token<TKind> | undefined {
         if (token === t) {
@@ -188,6 +224,38 @@ export namespace Parser {
         return finishNode(node);
     }
 
+    /**
+     * Reports the error at the current token and returns a zero-width node flagged as missing in
+     * place of the one absent from the source, so that the tree stays complete.
+     */
+    function createMissingNode<T extends Node>(kind: SyntaxKind, message: DiagnosticMessage, ...args: Array<string | number>): T {
+        error(message, ...args);
+        const node = createNode(kind);
+        node.flags |= NodeFlags.Missing;
+        return finishNode(node as T, node.pos);
+    }
+
+    function createMissingIdentifier(message: DiagnosticMessage, ...args: Array<string | number>): lang.Identifier {
+        const node = createMissingNode<lang.Identifier>(SyntaxKind.Identifier, message, ...args);
+        node.text = '';
+        return node;
+    }
+
+    /** A reference to a missing name, which unlike a keyword type cannot be mistaken for a real type */
+    function createMissingType(message: DiagnosticMessage, ...args: Array<string | number>): lang.TypeReferenceNode {
+        const node = createMissingNode<lang.TypeReferenceNode>(SyntaxKind.TypeReference, message, ...args);
+        const typeName = <lang.Identifier>createNode(SyntaxKind.Identifier, node.pos);
+        typeName.flags |= NodeFlags.Missing;
+        typeName.text = '';
+        node.typeName = finishNode(typeName, node.pos);
+        return node;
+    }
+
+    /** Discards the current token, keeping it in the list of skipped tokens of the source file */
+    function skipToken() {
+        skippedTokens.push(parseTokenNode<Token<SyntaxKind>>());
+    }
+
     function createNodeList<T extends Node>(elements: T[], pos: number, end?: number): NodeList<T> {
         const array = <NodeList<T> & T[]>elements;
         array.pos = pos;
@@ -202,8 +270,19 @@ export namespace Parser {
         const listPos = scanner.startPos;
 
         while (!isListTerminator(kind)) {
-            const element = parseElement();
-            list.push(element);
+            if (isListElement(kind, /*inErrorRecovery*/ false)) {
+                const startPos = scanner.startPos;
+                list.push(parseElement());
+                // Always make progress, even if the element could not consume its first token
+                if (startPos === scanner.startPos) {
+                    skipToken();
+                }
+                continue;
+            }
+
+            if (abortParsingListOrMoveToNextToken(kind)) {
+                break;
+            }
         }
 
         parsingContext = saveParsingContext;
@@ -221,8 +300,15 @@ export namespace Parser {
         let commaStart = -1; // Meaning the previous token was not a comma
 
         while (!isListTerminator(kind)) {
-            const element = parseElement();
-            list.push(element);
+            if (!isListElement(kind, /*inErrorRecovery*/ false)) {
+                if (abortParsingListOrMoveToNextToken(kind)) {
+                    break;
+                }
+                continue;
+            }
+
+            const startPos = scanner.startPos;
+            list.push(parseElement());
 
             commaStart = scanner.tokenPos;
             if (parseOptional(SyntaxKind.CommaToken)) {
@@ -230,10 +316,17 @@ export namespace Parser {
             }
 
             commaStart = -1; // Back to the state where the last token was not a comma
-            if (isListTerminator(kind)) {
+            // Declarations not followed by a comma may also end by automatic semicolon insertion,
+            // or by the block of a using statement: `using const a = file() {}`
+            if (isListTerminator(kind) ||
+                kind === ParsingContext.VariableDeclarations &&
+                (canParseSemicolon() || token === SyntaxKind.OpenBraceToken)) {
                 break;
             } else {
-                error('Comma expected.');
+                error(Diagnostics.Comma_expected);
+                if (startPos === scanner.startPos) {
+                    skipToken();
+                }
             }
         }
 
@@ -256,25 +349,209 @@ export namespace Parser {
             case ParsingContext.SwitchClauses:
             case ParsingContext.ObjectLiteralMembers:
             case ParsingContext.NodeBlock:
+            case ParsingContext.ClassMembers:
+            case ParsingContext.TypeMembers:
+            case ParsingContext.EnumMembers:
+            case ParsingContext.ImportOrExportSpecifiers:
+            case ParsingContext.ObjectBindingElements:
                 return token === SyntaxKind.CloseBraceToken;
+            case ParsingContext.HeritageClauseElement:
+                return token === SyntaxKind.OpenBraceToken ||
+                    token === SyntaxKind.ExtendsKeyword ||
+                    token === SyntaxKind.ImplementsKeyword;
+            case ParsingContext.TypeParameters:
+                // What follows the list may be there even if the `>` is missing
+                return token === SyntaxKind.GreaterThanToken ||
+                    token === SyntaxKind.OpenParenToken ||
+                    token === SyntaxKind.OpenBraceToken ||
+                    token === SyntaxKind.ExtendsKeyword ||
+                    token === SyntaxKind.ImplementsKeyword;
             case ParsingContext.SwitchClauseStatements:
                 return token === SyntaxKind.CloseBraceToken ||
                     token === SyntaxKind.CaseKeyword ||
                     token === SyntaxKind.DefaultKeyword;
             case ParsingContext.ArrayLiteralMembers:
+            case ParsingContext.TupleElementTypes:
+            case ParsingContext.ArrayBindingElements:
                 return token === SyntaxKind.CloseBracketToken;
             case ParsingContext.Parameters:
+                // Parameters of an index signature end with `]`
+                return token === SyntaxKind.CloseParenToken || token === SyntaxKind.CloseBracketToken;
             case ParsingContext.ArgumentExpressions:
                 return token === SyntaxKind.CloseParenToken;
             case ParsingContext.VariableDeclarations:
-                return token === SyntaxKind.SemicolonToken ||
-                    token === SyntaxKind.OpenBraceToken /* using const a = file() {} */;
+                // `{` here may start an object binding pattern
+                return token === SyntaxKind.SemicolonToken;
             default:
                 // case ParsingContext.SourceElements:
                 return false;
         }
     }
 
+    function isListElement(kind: ParsingContext, inErrorRecovery: boolean): boolean {
+        switch (kind) {
+            case ParsingContext.SourceElements:
+            case ParsingContext.BlockStatements:
+            case ParsingContext.SwitchClauseStatements:
+                // A stray `;` is not worth stopping recovery for
+                return !(token === SyntaxKind.SemicolonToken && inErrorRecovery) && isStartOfStatement();
+            case ParsingContext.NodeBlock:
+                return token === SyntaxKind.StateKeyword || isStartOfStatement();
+            case ParsingContext.SwitchClauses:
+                return token === SyntaxKind.CaseKeyword || token === SyntaxKind.DefaultKeyword;
+            case ParsingContext.VariableDeclarations:
+                return isStartOfBindingName();
+            case ParsingContext.ArgumentExpressions:
+                return token === SyntaxKind.DotDotDotToken || isStartOfExpression();
+            case ParsingContext.ArrayLiteralMembers:
+                return token === SyntaxKind.CommaToken || token === SyntaxKind.DotDotDotToken || isStartOfExpression();
+            case ParsingContext.ObjectLiteralMembers:
+            case ParsingContext.ObjectBindingElements:
+                return token === SyntaxKind.OpenBracketToken ||
+                    token === SyntaxKind.AsteriskToken ||
+                    token === SyntaxKind.DotDotDotToken ||
+                    isLiteralPropertyName();
+            case ParsingContext.Parameters:
+                return token === SyntaxKind.DotDotDotToken ||
+                    token === SyntaxKind.AtToken ||
+                    token === SyntaxKind.ThisKeyword ||
+                    token === SyntaxKind.PortIdentifier ||
+                    token === SyntaxKind.AllPortsToken ||
+                    isModifierKind(token) ||
+                    isStartOfBindingName();
+            case ParsingContext.ClassMembers:
+                return token === SyntaxKind.SemicolonToken ||
+                    token === SyntaxKind.AtToken ||
+                    token === SyntaxKind.OpenBracketToken ||
+                    token === SyntaxKind.AsteriskToken ||
+                    isLiteralPropertyName();
+            case ParsingContext.HeritageClauseElement:
+                return isStartOfLeftHandExp();
+            case ParsingContext.TypeParameters:
+                return scanner.isIdentifier();
+            case ParsingContext.TypeMembers:
+                return token === SyntaxKind.OpenParenToken ||
+                    token === SyntaxKind.LessThanToken ||
+                    token === SyntaxKind.OpenBracketToken ||
+                    isLiteralPropertyName();
+            case ParsingContext.EnumMembers:
+                return token === SyntaxKind.OpenBracketToken || isLiteralPropertyName();
+            case ParsingContext.ImportOrExportSpecifiers:
+                return token === SyntaxKind.StringLiteral || isIdentifierOrKeyword();
+            case ParsingContext.TupleElementTypes:
+                return token === SyntaxKind.CommaToken || token === SyntaxKind.DotDotDotToken || isStartOfType();
+            case ParsingContext.ArrayBindingElements:
+                return token === SyntaxKind.CommaToken || token === SyntaxKind.DotDotDotToken || isStartOfBindingName();
+        }
+        return false;
+    }
+
+    /**
+     * Called when the current token can neither continue nor end the list. If an enclosing list
+     * can deal with the token, the current list is aborted so that parsing resynchronizes there;
+     * otherwise the token is skipped. Returns true if the list should be aborted.
+     */
+    function abortParsingListOrMoveToNextToken(kind: ParsingContext): boolean {
+        error(parsingContextErrors(kind));
+        if (isInSomeParsingContext()) {
+            return true;
+        }
+        skipToken();
+        return false;
+    }
+
+    function isInSomeParsingContext(): boolean {
+        for (let kind = 0; kind < ParsingContext.Count; kind++) {
+            if (parsingContext & (1 << kind)) {
+                if (isListElement(kind, /*inErrorRecovery*/ true) || isListTerminator(kind)) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    function parsingContextErrors(kind: ParsingContext): DiagnosticMessage {
+        switch (kind) {
+            case ParsingContext.SourceElements:
+            case ParsingContext.BlockStatements:
+            case ParsingContext.SwitchClauseStatements:
+            case ParsingContext.NodeBlock:
+                return Diagnostics.Declaration_or_statement_expected;
+            case ParsingContext.SwitchClauses:
+                return Diagnostics.case_or_default_expected;
+            case ParsingContext.VariableDeclarations:
+                return Diagnostics.Variable_declaration_expected;
+            case ParsingContext.ArgumentExpressions:
+                return Diagnostics.Argument_expression_expected;
+            case ParsingContext.ObjectLiteralMembers:
+                return Diagnostics.Property_assignment_expected;
+            case ParsingContext.ArrayLiteralMembers:
+                return Diagnostics.Expression_or_comma_expected;
+            case ParsingContext.Parameters:
+                return Diagnostics.Parameter_declaration_expected;
+            case ParsingContext.ClassMembers:
+                return Diagnostics.Declaration_expected;
+            case ParsingContext.HeritageClauseElement:
+                return Diagnostics.Expression_expected;
+            case ParsingContext.TypeParameters:
+                return Diagnostics.Type_parameter_declaration_expected;
+            case ParsingContext.TypeMembers:
+                return Diagnostics.Property_or_signature_expected;
+            case ParsingContext.EnumMembers:
+                return Diagnostics.Enum_member_expected;
+            case ParsingContext.ImportOrExportSpecifiers:
+                return Diagnostics.Identifier_expected;
+            case ParsingContext.TupleElementTypes:
+                return Diagnostics.Type_expected;
+            case ParsingContext.ObjectBindingElements:
+                return Diagnostics.Property_destructuring_pattern_expected;
+            case ParsingContext.ArrayBindingElements:
+                return Diagnostics.Array_element_destructuring_pattern_expected;
+        }
+        return Diagnostics.Declaration_or_statement_expected;
+    }
+
+    function isStartOfStatement(): boolean {
+        switch (token) {
+            case SyntaxKind.SemicolonToken:
+            case SyntaxKind.OpenBraceToken:
+            case SyntaxKind.AtToken:
+            case SyntaxKind.VarKeyword:
+            case SyntaxKind.LetKeyword:
+            case SyntaxKind.ConstKeyword:
+            case SyntaxKind.FunctionKeyword:
+            case SyntaxKind.ClassKeyword:
+            case SyntaxKind.EnumKeyword:
+            case SyntaxKind.InterfaceKeyword:
+            case SyntaxKind.TypeKeyword:
+            case SyntaxKind.NamespaceKeyword:
+            case SyntaxKind.ModuleKeyword:
+            case SyntaxKind.GlobalKeyword:
+            case SyntaxKind.AbstractKeyword:
+            case SyntaxKind.DeclareKeyword:
+            case SyntaxKind.NodeKeyword:
+            case SyntaxKind.SubnetKeyword:
+            case SyntaxKind.ImportKeyword:
+            case SyntaxKind.ExportKeyword:
+            case SyntaxKind.IfKeyword:
+            case SyntaxKind.ForKeyword:
+            case SyntaxKind.WhileKeyword:
+            case SyntaxKind.DoKeyword:
+            case SyntaxKind.SwitchKeyword:
+            case SyntaxKind.TryKeyword:
+            case SyntaxKind.UsingKeyword:
+            case SyntaxKind.ContinueKeyword:
+            case SyntaxKind.BreakKeyword:
+            case SyntaxKind.FallThroughKeyword:
+            case SyntaxKind.ReturnKeyword:
+            case SyntaxKind.ThrowKeyword:
+            case SyntaxKind.DebuggerKeyword:
+                return true;
+        }
+        return isStartOfExpression();
+    }
+
     function parseStatement(): Statement {
         switch (token) {
             case SyntaxKind.SemicolonToken:
@@ -291,10 +568,16 @@ export namespace Parser {
                 return parseReturnStatement();
             case SyntaxKind.DebuggerKeyword:
                 return parseDebuggerStatement();
+            case SyntaxKind.ThrowKeyword:
+                return parseThrowStatement();
             case SyntaxKind.IfKeyword:
                 return parseIfStatement();
             case SyntaxKind.ForKeyword:
                 return parseForOrForInOrForOfStatement();
+            case SyntaxKind.WhileKeyword:
+                return parseWhileStatement();
+            case SyntaxKind.DoKeyword:
+                return parseDoStatement();
             case SyntaxKind.SwitchKeyword:
                 return parseSwitchStatement();
             case SyntaxKind.TryKeyword:
@@ -313,6 +596,7 @@ export namespace Parser {
             case SyntaxKind.AbstractKeyword: // abstract class ..., or as an identifier
             case SyntaxKind.ClassKeyword:
             case SyntaxKind.AsyncKeyword: // async funtion ..., or as an identifier
+            case SyntaxKind.DeclareKeyword: // declare interface ..., or as an identifier
             case SyntaxKind.FunctionKeyword:
             case SyntaxKind.NodeKeyword: // node nd {...} subnet {...}, or id
             case SyntaxKind.SubnetKeyword:
@@ -320,6 +604,8 @@ export namespace Parser {
             case SyntaxKind.TypeKeyword: // type TypeA = ..., or id
             case SyntaxKind.EnumKeyword:
             case SyntaxKind.NamespaceKeyword: // namespace NS {...}, or id
+            case SyntaxKind.ModuleKeyword: // module "x" {...}, or id
+            case SyntaxKind.GlobalKeyword: // declare global {...}, or id
                 if (isStartOfDeclaration()) {
                     return parseDeclaration();
                 }
@@ -328,25 +614,73 @@ export namespace Parser {
         return parseExpressionOrLabeledStatement();
     }
 
+    /** `$name` is scanned as a port, but names it as well outside of a node, e.g. `let $x = 1` */
+    function isBindingIdentifier(): boolean {
+        return scanner.isIdentifier() || token === SyntaxKind.PortIdentifier;
+    }
+
     function parseIdentifier() {
-        if (!scanner.isIdentifier()) {
-            error('Identifier expected, but got ' + SyntaxKind[token]);
-            const node = <lang.Identifier>createNode(SyntaxKind.Identifier);
-            node.text = '';
-            return finishNode(node);
+        if (!isBindingIdentifier()) {
+            return createMissingIdentifier(Diagnostics.Identifier_expected_but_got_0, SyntaxKind[token]);
         }
 
         const node = <lang.Identifier>createNode(SyntaxKind.Identifier);
 
         node.text = scanner.tokenValue!;
 
-        if (token !== SyntaxKind.Identifier) {
+        if (token !== SyntaxKind.Identifier && token !== SyntaxKind.PortIdentifier) {
+            node.originalKeywordKind = token;
+        }
+        nextToken();
+        return finishNode(node);
+    }
+    /** Unlike an Identifier, an IdentifierName may be a reserved word, e.g. `import { default as a }` */
+    function parseIdentifierName(): lang.Identifier {
+        if (!isIdentifierOrKeyword()) {
+            return parseIdentifier();
+        }
+        const node = <lang.Identifier>createNode(SyntaxKind.Identifier);
+        node.text = scanner.tokenValue!;
+        if (token !== SyntaxKind.Identifier && token !== SyntaxKind.PortIdentifier) {
             node.originalKeywordKind = token;
         }
         nextToken();
         return finishNode(node);
     }
+    /**
+     * Whether a statement could end here, either with an explicit semicolon or by
+     * automatic semicolon insertion, i.e. before a line break, a `}` or the end of file.
+     */
+    function canParseSemicolon() {
+        if (token === SyntaxKind.SemicolonToken) {
+            return true;
+        }
+        return token === SyntaxKind.CloseBraceToken
+            || token === SyntaxKind.EndOfFileToken
+            || scanner.hasPrecedingLineBreak();
+    }
+
+    function parsePortIdentifier(): lang.PortIdentifier {
+        if (token !== SyntaxKind.PortIdentifier) {
+            const missing = createMissingNode<lang.PortIdentifier>(SyntaxKind.PortIdentifier,
+                Diagnostics.Unexpected_0_expected_1, SyntaxKind[token], SyntaxKind[SyntaxKind.PortIdentifier]);
+            missing.text = '';
+            return missing;
+        }
+        const node = <lang.PortIdentifier>createNode(SyntaxKind.PortIdentifier);
+
+        node.text = scanner.tokenValue!;
+        nextToken();
+        return finishNode(node);
+    }
+
     function parseSemicolon() {
+        if (canParseSemicolon()) {
+            if (token === SyntaxKind.SemicolonToken) {
+                nextToken();
+            }
+            return true;
+        }
         return parseExpected(SyntaxKind.SemicolonToken);
     }
 
@@ -394,11 +728,12 @@ export namespace Parser {
                 ? SyntaxKind.BreakKeyword
                 : SyntaxKind.ContinueKeyword
         );
-        if (token !== SyntaxKind.SemicolonToken) {
+        // The label must be on the same line, otherwise a semicolon is inserted
+        if (!canParseSemicolon()) {
             node.label = parseIdentifier();
         }
 
-        parseExpected(SyntaxKind.SemicolonToken);
+        parseSemicolon();
         return finishNode(node);
     }
 
@@ -412,7 +747,8 @@ export namespace Parser {
     function parseReturnStatement() {
         const node = <lang.ReturnStatement>createNode(SyntaxKind.ReturnStatement);
         parseExpected(SyntaxKind.ReturnKeyword);
-        if (token !== SyntaxKind.SemicolonToken) {
+        // `return` followed by a line break returns nothing
+        if (!canParseSemicolon()) {
             node.expression = parseExpression();
         }
         parseSemicolon();
@@ -432,11 +768,25 @@ export namespace Parser {
             token === SyntaxKind.ConstKeyword;
     }
 
+    function parseThrowStatement() {
+        const node = <lang.ThrowStatement>createNode(SyntaxKind.ThrowStatement);
+        parseExpected(SyntaxKind.ThrowKeyword);
+        // Unlike `return`, `throw` must be followed by an expression on the same line
+        if (scanner.hasPrecedingLineBreak()) {
+            node.expression = createMissingIdentifier(Diagnostics.Line_break_not_permitted_here);
+        } else if (canParseSemicolon()) {
+            node.expression = createMissingIdentifier(Diagnostics.Expression_expected);
+        } else {
+            node.expression = parseExpression();
+        }
+        parseSemicolon();
+        return finishNode(node);
+    }
+
     function parseIfStatement() {
         const node = <lang.IfStatement>createNode(SyntaxKind.IfStatement);
         parseExpected(SyntaxKind.IfKeyword);
-        const walrus: lang.VariableDeclaration | false = tryParseWalrusDeclaration();
-        const variableDeclaration = walrus || isCurrentTokenVLC() && parseVariableDeclarationWithoutModifiers();
+        const variableDeclaration = tryParseHeaderVariableDeclaration();
         if (variableDeclaration) {
             node.variableDeclaration = variableDeclaration;
         }
@@ -453,8 +803,7 @@ export namespace Parser {
 
             nextToken();
 
-            const _walrus: lang.VariableDeclaration | false = tryParseWalrusDeclaration();
-            const _variableDeclaration = _walrus || isCurrentTokenVLC() && parseVariableDeclarationWithoutModifiers();
+            const _variableDeclaration = tryParseHeaderVariableDeclaration();
             if (_variableDeclaration) {
                 elifClause.variableDeclaration = _variableDeclaration;
             }
@@ -470,6 +819,29 @@ export namespace Parser {
         return finishNode(node);
     }
 
+    function parseWhileStatement() {
+        const node = <lang.WhileStatement>createNode(SyntaxKind.WhileStatement);
+        parseExpected(SyntaxKind.WhileKeyword);
+        const variableDeclaration = tryParseHeaderVariableDeclaration();
+        if (variableDeclaration) {
+            node.variableDeclaration = variableDeclaration;
+        }
+        node.expression = parseExpression();
+        node.block = parseBlock();
+        return finishNode(node);
+    }
+
+    function parseDoStatement() {
+        const node = <lang.DoStatement>createNode(SyntaxKind.DoStatement);
+        parseExpected(SyntaxKind.DoKeyword);
+        node.block = parseBlock();
+        parseExpected(SyntaxKind.WhileKeyword);
+        node.expression = parseExpression();
+        // The semicolon after `do {} while cond` is optional even on the same line, as in ES2015
+        parseOptional(SyntaxKind.SemicolonToken);
+        return finishNode(node);
+    }
+
     function parseForOrForInOrForOfStatement() {
         const pos = scanner.startPos;
         parseExpected(SyntaxKind.ForKeyword);
@@ -481,14 +853,14 @@ export namespace Parser {
             return finishNode(node);
         } else if (isCurrentTokenVLC() && lookAhead(() => {
             nextToken();
-            if (!scanner.isIdentifier()) return false;
-            nextToken();
+            if (!skipBindingName()) return false;
             return token === SyntaxKind.InKeyword || token === SyntaxKind.OfKeyword;
         })) {
             // for-in, for-of
             const node = <lang.ForInStatement | lang.ForOfStatement>createNode(SyntaxKind.Unknown, pos);
             node.vlc = token as SyntaxKind.VarKeyword | SyntaxKind.LetKeyword | SyntaxKind.ConstKeyword;
-            node.identifier = parseIdentifier();
+            nextToken();
+            node.identifier = parseIdentifierOrPattern();
 
             if (token === SyntaxKind.InKeyword) {
                 node.kind = SyntaxKind.ForInStatement;
@@ -505,9 +877,7 @@ export namespace Parser {
             // for Expression { ... }
             // for abc; efg; hij { ... }
             const node = <lang.ForStatement>createNode(SyntaxKind.ForStatement, pos);
-            const walrus: lang.VariableDeclaration | false = tryParseWalrusDeclaration();
-            const variableDeclaration: lang.VariableDeclaration | false =
-                walrus || (isCurrentTokenVLC() && parseVariableDeclarationWithoutModifiers());
+            const variableDeclaration = tryParseHeaderVariableDeclaration();
 
             if (token !== SyntaxKind.SemicolonToken) {
                 node.initializer = variableDeclaration || parseExpression();
@@ -516,7 +886,7 @@ export namespace Parser {
             if (variableDeclaration) {
                 // There must be a second element
                 node.condition = parseExpression();
-                parseSemicolon();
+                parseExpected(SyntaxKind.SemicolonToken);
                 if ((token as SyntaxKind) !== SyntaxKind.OpenBraceToken) {
                     node.incrementor = parseExpression();
                 }
@@ -524,7 +894,7 @@ export namespace Parser {
                 // There may be a second element, if so, now token = ;
                 if (parseOptional(SyntaxKind.SemicolonToken)) {
                     node.condition = parseExpression();
-                    parseSemicolon();
+                    parseExpected(SyntaxKind.SemicolonToken);
                     if ((token as SyntaxKind) !== SyntaxKind.OpenBraceToken) {
                         node.incrementor = parseExpression();
                     }
@@ -544,8 +914,7 @@ export namespace Parser {
 
         parseExpected(SyntaxKind.SwitchKeyword);
 
-        const walrus: lang.VariableDeclaration | false = tryParseWalrusDeclaration();
-        const variableDeclaration = walrus || isCurrentTokenVLC() && parseVariableDeclarationWithoutModifiers();
+        const variableDeclaration = tryParseHeaderVariableDeclaration();
         if (variableDeclaration) {
             node.variableDeclaration = variableDeclaration;
         }
@@ -618,15 +987,14 @@ export namespace Parser {
         const targetList = [] as lang.UsingTarget[];
 
         while (true) {
-            if (token === SyntaxKind.OpenBraceToken) break;
-
-            if (scanner.isIdentifier()) {
-                const walrus = tryParseWalrusDeclaration(/*notParseSemicolon*/ true);
-                if (walrus) {
-                    targetList.push(walrus);
-                } else {
-                    targetList.push(parseIdentifier());
-                }
+            // A walrus may bind a pattern, e.g. `using [a] := f() {}`, so a `{` starts the block only otherwise
+            const walrus = tryParseWalrusDeclaration(/*notParseSemicolon*/ true);
+            if (walrus) {
+                targetList.push(walrus);
+            } else if (token === SyntaxKind.OpenBraceToken) {
+                break;
+            } else if (isBindingIdentifier()) {
+                targetList.push(parseIdentifier());
             } else {
                 targetList.push(parseVariableDeclarationWithoutModifiers({ notParseSemicolon: true }));
             }
@@ -639,12 +1007,27 @@ export namespace Parser {
         return finishNode(node);
     }
 
+    /**
+     * `x := f();` or `let x = f();` at the start of an `if`, `while`, `switch` or `for` header.
+     * The `;` ending it is never inserted at a line break.
+     */
+    function tryParseHeaderVariableDeclaration(): lang.VariableDeclaration | false {
+        const variableDeclaration = tryParseWalrusDeclaration(/*notParseSemicolon*/ true) ||
+            isCurrentTokenVLC() && parseVariableDeclarationWithoutModifiers({ notParseSemicolon: true });
+        if (variableDeclaration) {
+            parseExpected(SyntaxKind.SemicolonToken);
+        }
+        return variableDeclaration;
+    }
+
     function tryParseWalrusDeclaration(notParseSemicolon = false): lang.VariableDeclaration | false {
-        if (!scanner.isIdentifier()) return false;
-        if (lookAhead(() => {
-            nextToken();
-            return token !== SyntaxKind.ColonEqualsToken;
-        })) {
+        if (!isBindingIdentifier() &&
+            token !== SyntaxKind.OpenBracketToken &&
+            token !== SyntaxKind.OpenBraceToken
+        ) {
+            return false;
+        }
+        if (!lookAhead(() => skipBindingName() && token === SyntaxKind.ColonEqualsToken)) {
             return false;
         }
 
@@ -654,7 +1037,7 @@ export namespace Parser {
 
         const binding = <lang.VariableBinding>createNode(SyntaxKind.VariableBinding);
         binding.parent = node;
-        binding.name = parseIdentifier();
+        binding.name = parseIdentifierOrPattern();
         parseExpected(SyntaxKind.ColonEqualsToken);
         binding.initializer = parseConnectExp();
         finishNode(binding);
@@ -698,7 +1081,7 @@ export namespace Parser {
             && token !== SyntaxKind.FunctionKeyword
             && token !== SyntaxKind.NodeKeyword
             && token !== SyntaxKind.SubnetKeyword) ||
-            scanner.isIdentifier() && lookAhead(() => nextToken() === SyntaxKind.EqualsGreaterThanToken) ||
+            isBindingIdentifier() && lookAhead(() => nextToken() === SyntaxKind.EqualsGreaterThanToken) ||
             token === SyntaxKind.LessThanToken && lookAhead(isStartOfArrowFunctionWithCallSignature) ||
             lookAhead(isStartOfParenthesizedArrowFunction)
         ) {
@@ -789,7 +1172,10 @@ export namespace Parser {
             case SyntaxKind.TrueKeyword:
             case SyntaxKind.FalseKeyword:
             case SyntaxKind.NumericLiteral:
+            case SyntaxKind.BigIntLiteral:
             case SyntaxKind.StringLiteral:
+            case SyntaxKind.NoSubstitutionTemplateLiteral:
+            case SyntaxKind.TemplateHead:
             case SyntaxKind.OpenParenToken:
             case SyntaxKind.OpenBracketToken:
             case SyntaxKind.OpenBraceToken:
@@ -798,9 +1184,11 @@ export namespace Parser {
             case SyntaxKind.NodeKeyword:
             case SyntaxKind.SubnetKeyword:
             case SyntaxKind.NewKeyword:
-            // case SyntaxKind.SlashToken:
-            // case SyntaxKind.SlashEqualsToken:
+            case SyntaxKind.SlashToken:
+            case SyntaxKind.SlashEqualsToken:
             case SyntaxKind.Identifier:
+            case SyntaxKind.PortIdentifier:
+            case SyntaxKind.AllPortsToken:
                 return true;
             case SyntaxKind.ImportKeyword:
                 return lookAhead(nextTokenIsOpenParenOrDot);
@@ -822,7 +1210,7 @@ export namespace Parser {
         const node = <lang.ArrowFunction>createNode(SyntaxKind.ArrowFunction);
         node.isAsync = parseOptional(SyntaxKind.AsyncKeyword);
 
-        if (scanner.isIdentifier()) {
+        if (isBindingIdentifier()) {
             const singleParameter = <lang.Parameter>createNode(SyntaxKind.Parameter);
             singleParameter.name = parseIdentifier();
             finishNode(singleParameter);
@@ -832,13 +1220,7 @@ export namespace Parser {
             addCallSignature(node);
         }
 
-        let equalsGreaterThanToken = parseExpectedToken(SyntaxKind.EqualsGreaterThanToken);
-        if (!equalsGreaterThanToken) {
-            error('expected =>');
-            equalsGreaterThanToken = <lang.Token<SyntaxKind.EqualsGreaterThanToken>>createNode(SyntaxKind.EqualsGreaterThanToken);
-            finishNode(equalsGreaterThanToken);
-        }
-        node.equalsGreaterThanToken = equalsGreaterThanToken;
+        node.equalsGreaterThanToken = parseExpectedToken(SyntaxKind.EqualsGreaterThanToken);
 
         if (token === SyntaxKind.OpenBraceToken) {
             node.body = parseBlock();
@@ -852,27 +1234,40 @@ export namespace Parser {
         if (token === SyntaxKind.LessThanToken) {
             node.typeParameters = parseTypeParameters();
         }
-        parseExpected(SyntaxKind.OpenParenToken);
-
-        node.parameters = parseDelimitedList(ParsingContext.Parameters, parseParameter);
-
-        parseExpected(SyntaxKind.CloseParenToken);
+        node.parameters = parseParameters();
 
         if (parseOptional(SyntaxKind.ColonToken)) {
-            node.type = parseType();
+            node.type = parseTypeOrTypePredicate();
         }
     }
 
+    function parseParameters(): NodeList<lang.Parameter> {
+        parseExpected(SyntaxKind.OpenParenToken);
+        const parameters = parseDelimitedList(ParsingContext.Parameters, parseParameter);
+        parseExpected(SyntaxKind.CloseParenToken);
+        return parameters;
+    }
+
     function parseParameter(): lang.Parameter {
         const node = <lang.Parameter>createNode(SyntaxKind.Parameter);
+        const decorators = parseDecorators();
+        if (decorators) node.decorators = decorators;
+        const modifiers = parseModifiers();
+        if (modifiers) node.modifiers = modifiers;
+        const dotDotDotToken = parseOptionalToken(SyntaxKind.DotDotDotToken);
+        if (dotDotDotToken) node.dotDotDotToken = dotDotDotToken;
         if (token === SyntaxKind.ThisKeyword) {
             const idThis = <lang.Identifier>createNode(SyntaxKind.Identifier);
             idThis.text = scanner.tokenValue!;
             idThis.originalKeywordKind = token;
             nextToken();
             node.name = finishNode(idThis);
+        } else if (token === SyntaxKind.PortIdentifier) {
+            node.name = parsePortIdentifier();
+        } else if (token === SyntaxKind.AllPortsToken) {
+            node.name = parseTokenNode<lang.AllPortsExpression>();
         } else {
-            node.name = parseIdentifier();
+            node.name = parseIdentifierOrPattern();
         }
 
         node.questionToken = parseOptionalToken(SyntaxKind.QuestionToken);
@@ -899,7 +1294,7 @@ export namespace Parser {
                     paren--;
                     break;
                 case SyntaxKind.EndOfFileToken:
-                    error('Unmatched parentheses');
+                    error(Diagnostics.Unmatched_parentheses);
                     return false;
                 default:
                     continue;
@@ -909,12 +1304,12 @@ export namespace Parser {
                 break;
             }
         }
-        if (token === SyntaxKind.ColonToken && canBeType(nextToken()) && nextToken() === SyntaxKind.EqualsGreaterThanToken ||
-            token === SyntaxKind.EqualsGreaterThanToken) {
-            return true;
-        } else {
-            return false;
+        if (token === SyntaxKind.ColonToken) {
+            nextToken();
+            if (!isStartOfType()) return false;
+            parseTypeOrTypePredicate();
         }
+        return token === SyntaxKind.EqualsGreaterThanToken;
     }
 
     function isStartOfArrowFunctionWithCallSignature(): boolean {
@@ -929,7 +1324,7 @@ export namespace Parser {
                     angleBracket--;
                     break;
                 case SyntaxKind.EndOfFileToken:
-                    error('Unmatched angle bracket');
+                    error(Diagnostics.Unmatched_angle_bracket);
                     return false;
                 default:
                     continue;
@@ -961,8 +1356,14 @@ export namespace Parser {
             case SyntaxKind.FunctionExpression:
             case SyntaxKind.NodeExpression:
             case SyntaxKind.Identifier:
+            case SyntaxKind.PortIdentifier:
+            case SyntaxKind.AllPortsToken:
             case SyntaxKind.NumericLiteral:
+            case SyntaxKind.BigIntLiteral:
             case SyntaxKind.StringLiteral:
+            case SyntaxKind.RegularExpressionLiteral:
+            case SyntaxKind.NoSubstitutionTemplateLiteral:
+            case SyntaxKind.TemplateExpression:
             case SyntaxKind.FalseKeyword:
             case SyntaxKind.NullKeyword:
             case SyntaxKind.ThisKeyword:
@@ -983,6 +1384,14 @@ export namespace Parser {
         return token = scanner.reScanGreaterToken();
     }
 
+    function reScanSlashToken(): SyntaxKind {
+        return token = scanner.reScanSlashToken();
+    }
+
+    function reScanTemplateToken(): SyntaxKind {
+        return token = scanner.reScanTemplateToken();
+    }
+
     function parseBinaryExp(precedence: number): lang.BinaryExp {
         const leftOperand: lang.BinaryExp = parseUnaryExp();
         return parseBinaryExpRest(precedence, leftOperand);
@@ -1117,8 +1526,10 @@ export namespace Parser {
         }
         const expr: lang.LeftHandExp = parseLeftHandExp();
         assert(isLeftHandExp(expr));
-        if ((token as SyntaxKind) === SyntaxKind.PlusPlusToken ||
-            (token as SyntaxKind) === SyntaxKind.MinusMinusToken
+        // A `++` or `--` on the next line is the prefix operator of the next statement
+        if (((token as SyntaxKind) === SyntaxKind.PlusPlusToken ||
+            (token as SyntaxKind) === SyntaxKind.MinusMinusToken) &&
+            !scanner.hasPrecedingLineBreak()
         ) {
             const node = <lang.PostfixUpdateExpression>createNode(SyntaxKind.PostfixUpdateExpression, expr.pos);
             node.operand = expr;
@@ -1159,7 +1570,7 @@ export namespace Parser {
             let isOptionalChain = false;
             lookAhead(() => {
                 if (token === SyntaxKind.DotToken) {
-                    if (nextToken() && scanner.isIdentifier()) {
+                    if (nextToken() && (scanner.isIdentifier() || (token as SyntaxKind) === SyntaxKind.PortIdentifier)) {
                         isAccess = true;
                         isPropertyAccess = true;
                     }
@@ -1170,7 +1581,8 @@ export namespace Parser {
                     nextToken();
                     if ((token as SyntaxKind) === SyntaxKind.OpenBracketToken) {
                         isAccess = true;
-                    } else if ((token as SyntaxKind) === SyntaxKind.Identifier) {
+                    } else if ((token as SyntaxKind) === SyntaxKind.Identifier ||
+                        (token as SyntaxKind) === SyntaxKind.PortIdentifier) {
                         isAccess = true;
                         isPropertyAccess = true;
                     }
@@ -1184,7 +1596,9 @@ export namespace Parser {
                 node.questionDotToken = isOptionalChain
                     ? parseOptionalToken(SyntaxKind.QuestionDotToken)
                     : (nextToken(), undefined);
-                node.name = parseIdentifier();
+                node.name = token === SyntaxKind.PortIdentifier
+                    ? parsePortIdentifier()
+                    : parseIdentifier();
                 expr = finishNode(node);
                 continue;
             }
@@ -1206,8 +1620,17 @@ export namespace Parser {
             expr = parseMemberExpRest(expr);
             const questionDotToken = parseOptionalToken(SyntaxKind.QuestionDotToken);
 
+            if (!questionDotToken && isStartOfTemplate()) {
+                expr = parseTaggedTemplateRest(expr);
+                continue;
+            }
+
             if (token === SyntaxKind.LessThanToken) {
                 const typeArguments = tryParse(parseTypeArgumentsInExpression);
+                if (typeArguments && !questionDotToken && isStartOfTemplate()) {
+                    expr = parseTaggedTemplateRest(expr, typeArguments);
+                    continue;
+                }
                 if (typeArguments) {
                     const callExpr = <lang.CallExpression>createNode(SyntaxKind.CallExpression, expr.pos);
                     callExpr.expression = expr;
@@ -1227,7 +1650,7 @@ export namespace Parser {
             }
 
             if (questionDotToken) {
-                error('Identifier expected.');
+                error(Diagnostics.Identifier_expected);
             }
 
             break;
@@ -1242,11 +1665,27 @@ export namespace Parser {
 
         if (!typeArguments || !parseOptional(SyntaxKind.GreaterThanToken)) return undefined;
 
-        if (token !== SyntaxKind.OpenParenToken) return undefined;
+        // func<T>(...) or tag<T>`...`
+        if (token !== SyntaxKind.OpenParenToken && !isStartOfTemplate()) return undefined;
 
         return typeArguments;
     }
 
+    function isStartOfTemplate(): boolean {
+        return token === SyntaxKind.NoSubstitutionTemplateLiteral ||
+            token === SyntaxKind.TemplateHead;
+    }
+
+    function parseTaggedTemplateRest(tag: lang.LeftHandExp, typeArguments?: NodeList<lang.Type>): lang.TaggedTemplateExpression {
+        const node = <lang.TaggedTemplateExpression>createNode(SyntaxKind.TaggedTemplateExpression, tag.pos);
+        node.tag = tag;
+        if (typeArguments) node.typeArguments = typeArguments;
+        node.template = token === SyntaxKind.NoSubstitutionTemplateLiteral
+            ? parseTemplateLiteralPart<lang.NoSubstitutionTemplateLiteral>()
+            : parseTemplateExpression();
+        return finishNode(node);
+    }
+
     function parseArguments(): lang.Arguments {
         const node = <lang.Arguments>createNode(SyntaxKind.Arguments);
         parseExpected(SyntaxKind.OpenParenToken);
@@ -1269,21 +1708,39 @@ export namespace Parser {
     function parsePrimaryExp(): lang.PrimaryExp {
         switch (token) {
             case SyntaxKind.NumericLiteral:
+            case SyntaxKind.BigIntLiteral:
             case SyntaxKind.StringLiteral:
                 const node: any = createNode(token);
                 node.text = scanner.tokenText;
-                if (token === SyntaxKind.NumericLiteral) {
+                if (token === SyntaxKind.NumericLiteral || token === SyntaxKind.BigIntLiteral) {
                     node.numericLiteralFlags = scanner.tokenFlags;
                 }
                 nextToken();
                 return finishNode(node);
+            case SyntaxKind.NoSubstitutionTemplateLiteral:
+                return parseTemplateLiteralPart<lang.NoSubstitutionTemplateLiteral>();
+            case SyntaxKind.TemplateHead:
+                return parseTemplateExpression();
+            case SyntaxKind.SlashToken:
+            case SyntaxKind.SlashEqualsToken:
+                // A `/` in the position of an operand can only start a regular expression
+                if (reScanSlashToken() === SyntaxKind.RegularExpressionLiteral) {
+                    const regex = <lang.RegularExpressionLiteral>createNode(SyntaxKind.RegularExpressionLiteral);
+                    regex.text = scanner.tokenValue!;
+                    nextToken();
+                    return finishNode(regex);
+                }
+                break;
             case SyntaxKind.ThisKeyword:
             case SyntaxKind.SuperKeyword:
             case SyntaxKind.NullKeyword:
             case SyntaxKind.TrueKeyword:
             case SyntaxKind.FalseKeyword:
             case SyntaxKind.ImportKeyword:
+            case SyntaxKind.AllPortsToken:
                 return parseTokenNode<lang.PrimaryExp>();
+            case SyntaxKind.PortIdentifier:
+                return parsePortIdentifier();
             case SyntaxKind.OpenParenToken:
                 return parseParenthesizedExpression();
             case SyntaxKind.OpenBracketToken:
@@ -1321,6 +1778,58 @@ export namespace Parser {
         return parseIdentifier();
     }
 
+    function parseTemplateExpression(): lang.TemplateExpression {
+        const node = <lang.TemplateExpression>createNode(SyntaxKind.TemplateExpression);
+        node.head = parseTemplateLiteralPart<lang.TemplateHead>();
+
+        const list = [];
+        const listPos = scanner.startPos;
+        let span: lang.TemplateSpan;
+        do {
+            span = parseTemplateSpan();
+            list.push(span);
+        } while (span.literal.kind === SyntaxKind.TemplateMiddle);
+        node.templateSpans = createNodeList(list, listPos);
+
+        return finishNode(node);
+    }
+
+    function parseTemplateSpan(): lang.TemplateSpan {
+        const node = <lang.TemplateSpan>createNode(SyntaxKind.TemplateSpan);
+        node.expression = parseExpression();
+
+        if (token === SyntaxKind.CloseBraceToken) {
+            reScanTemplateToken();
+            node.literal = parseTemplateLiteralPart<lang.TemplateMiddle | lang.TemplateTail>();
+        } else {
+            const literal = createMissingNode<lang.TemplateTail>(SyntaxKind.TemplateTail,
+                Diagnostics.Unexpected_0_expected_1, SyntaxKind[token], SyntaxKind[SyntaxKind.CloseBraceToken]);
+            literal.text = literal.rawText = '';
+            node.literal = literal;
+        }
+        return finishNode(node);
+    }
+
+    function parseTemplateLiteralPart<T extends
+        | lang.NoSubstitutionTemplateLiteral
+        | lang.TemplateHead
+        | lang.TemplateMiddle
+        | lang.TemplateTail
+    >(): T {
+        const node = <T>createNode(token);
+        node.text = scanner.tokenValue!;
+
+        // Strip the delimiters, '`' or '}' at the start and '`' or '${' at the end
+        const tokenText = scanner.tokenText;
+        const endLength = scanner.tokenFlags & lang.TokenFlags.Unterminated
+            ? 0
+            : token === SyntaxKind.TemplateHead || token === SyntaxKind.TemplateMiddle ? 2 : 1;
+        node.rawText = tokenText.substring(1, tokenText.length - endLength);
+
+        nextToken();
+        return finishNode(node);
+    }
+
     function parseParenthesizedExpression() {
         const node = <lang.ParenthesizedExpression>createNode(SyntaxKind.ParenthesizedExpression);
         parseExpected(SyntaxKind.OpenParenToken);
@@ -1366,149 +1875,1292 @@ export namespace Parser {
             return finishNode(node);
         }
 
-        if (token === SyntaxKind.Identifier && lookAhead(() => nextToken() !== SyntaxKind.ColonToken)) {
-            node.kind = SyntaxKind.ShorthandPropertyAssignment;
-            (node as lang.ShorthandPropertyAssignment).name = parseIdentifier();
-            return finishNode(node);
+        // Only a method may be `async`, e.g. `async handle() {}`, and no other modifier is allowed
+        let asyncModifier: lang.Modifier | undefined;
+        let asyncModifierStart = 0;
+        while (isModifierKind(token) && lookAhead(nextTokenCanFollowModifierOnSameLine)) {
+            if (token === SyntaxKind.AsyncKeyword && !asyncModifier) {
+                asyncModifierStart = scanner.tokenPos;
+                asyncModifier = parseTokenNode<lang.Modifier>();
+            } else {
+                error(Diagnostics._0_modifier_cannot_be_used_here, scanner.tokenText);
+                nextToken();
+            }
         }
 
-        node.kind = SyntaxKind.PropertyAssignment;
-        if (token === SyntaxKind.OpenBracketToken) {
-            const computedPropertyName = <lang.ComputedPropertyName>createNode(SyntaxKind.ComputedPropertyName);
-            nextToken();
-            computedPropertyName.expression = parseConnectExp();
-            parseExpected(SyntaxKind.CloseBracketToken);
-            (node as lang.PropertyAssignment).name = finishNode(computedPropertyName);
-        } else {
-            if (scanner.isIdentifier()) {
-                (node as lang.PropertyAssignment).name = parseIdentifier();
-            } else if (token === SyntaxKind.StringLiteral || token === SyntaxKind.NumericLiteral) {
-                const literal: any = createNode(token);
-                literal.text = scanner.tokenText;
-                if (token === SyntaxKind.NumericLiteral) {
-                    literal.numericLiteralFlags = scanner.tokenFlags;
-                }
-                nextToken();
-                (node as lang.PropertyAssignment).name = finishNode(literal);
-            } else {
-                error('Expect valid ObjectPropertyName.');
+        if ((token === SyntaxKind.GetKeyword || token === SyntaxKind.SetKeyword) &&
+            lookAhead(nextTokenCanFollowModifierOnSameLine)
+        ) {
+            reportAsyncModifier(asyncModifier, asyncModifierStart);
+            return parseAccessorDeclaration(node as lang.AccessorDeclaration);
+        }
+
+        const asteriskToken = parseOptionalToken(SyntaxKind.AsteriskToken);
+        const tokenIsIdentifier = isBindingIdentifier();
+        const name = parsePropertyName();
+        const questionToken = parseOptionalToken(SyntaxKind.QuestionToken);
+
+        if (asteriskToken || token === SyntaxKind.OpenParenToken || token === SyntaxKind.LessThanToken) {
+            const method = node as lang.MethodDeclaration;
+            method.kind = SyntaxKind.MethodDeclaration;
+            if (asyncModifier) method.modifiers = createNodeList([asyncModifier], asyncModifier.pos, asyncModifier.end);
+            if (asteriskToken) method.asteriskToken = asteriskToken;
+            method.name = name;
+            if (questionToken) method.questionToken = questionToken;
+            addCallSignature(method);
+            method.body = parseBlock();
+            return finishNode(method);
+        }
+        reportAsyncModifier(asyncModifier, asyncModifierStart);
+
+        // `{ a }`, or `{ a = 1 }` which is only valid as a destructuring assignment target
+        if (tokenIsIdentifier && token !== SyntaxKind.ColonToken) {
+            const shorthand = node as lang.ShorthandPropertyAssignment;
+            shorthand.kind = SyntaxKind.ShorthandPropertyAssignment;
+            shorthand.name = name as lang.Identifier;
+            if (parseOptional(SyntaxKind.EqualsToken)) {
+                shorthand.objectAssignmentInitializer = parseConnectExp();
             }
+            return finishNode(shorthand);
         }
 
+        node.kind = SyntaxKind.PropertyAssignment;
+        (node as lang.PropertyAssignment).name = name;
+
         parseExpected(SyntaxKind.ColonToken);
         (node as lang.PropertyAssignment).initializer = parseConnectExp();
         return finishNode(node);
     }
 
-    function parseNewExpression(): lang.NewExpression {
-        const node = <lang.NewExpression>createNode(SyntaxKind.NewExpression);
+    function reportAsyncModifier(asyncModifier: lang.Modifier | undefined, start: number) {
+        if (asyncModifier) {
+            parseErrorAtPosition(start, asyncModifier.end - start, Diagnostics._0_modifier_cannot_be_used_here, 'async');
+        }
+    }
+
+    function isLiteralPropertyName(): boolean {
+        return isIdentifierOrKeyword() ||
+            token === SyntaxKind.StringLiteral ||
+            token === SyntaxKind.NumericLiteral;
+    }
+
+    function isIdentifierOrKeyword(): boolean {
+        return token >= SyntaxKind.Identifier && token <= SyntaxKindMarker.LastKeyword
+            || token === SyntaxKind.PortIdentifier;
+    }
+
+    function parseStringLiteral(): lang.StringLiteral {
+        if (token !== SyntaxKind.StringLiteral) {
+            const missing = createMissingNode<lang.StringLiteral>(SyntaxKind.StringLiteral,
+                Diagnostics.Unexpected_0_expected_1, SyntaxKind[token], SyntaxKind[SyntaxKind.StringLiteral]);
+            missing.text = '';
+            return missing;
+        }
+        const node = <lang.StringLiteral>createNode(SyntaxKind.StringLiteral);
+        node.text = scanner.tokenText;
+        nextToken();
+        return finishNode(node);
+    }
+
+    /** Name of property or method, where reserved words are allowed, e.g. `{ default: 1 }` */
+    function parsePropertyName(): lang.PropertyName {
+        if (token === SyntaxKind.OpenBracketToken) {
+            const computedPropertyName = <lang.ComputedPropertyName>createNode(SyntaxKind.ComputedPropertyName);
+            nextToken();
+            computedPropertyName.expression = parseConnectExp();
+            parseExpected(SyntaxKind.CloseBracketToken);
+            return finishNode(computedPropertyName);
+        }
+        if (token === SyntaxKind.StringLiteral || token === SyntaxKind.NumericLiteral) {
+            const literal: any = createNode(token);
+            literal.text = scanner.tokenText;
+            if (token === SyntaxKind.NumericLiteral) {
+                literal.numericLiteralFlags = scanner.tokenFlags;
+            }
+            nextToken();
+            return finishNode(literal);
+        }
+
+        if (!isIdentifierOrKeyword()) {
+            return createMissingIdentifier(Diagnostics.Property_name_expected);
+        }
+        const node = <lang.Identifier>createNode(SyntaxKind.Identifier);
+        node.text = scanner.tokenValue!;
+        if (token !== SyntaxKind.Identifier && token !== SyntaxKind.PortIdentifier) {
+            node.originalKeywordKind = token;
+        }
+        nextToken();
+        return finishNode(node);
+    }
+
+    function parseNewExpression(): lang.NewExpression {
+        const node = <lang.NewExpression>createNode(SyntaxKind.NewExpression);
         parseExpected(SyntaxKind.NewKeyword);
         node.expression = parseMemberExp();
 
-        const typeArguments = tryParse(parseTypeArgumentsInExpression);
-        if (typeArguments) node.typeArguments = typeArguments;
+        const typeArguments = tryParse(parseTypeArgumentsInExpression);
+        if (typeArguments) node.typeArguments = typeArguments;
+
+        node.arguments = parseArguments();
+        return finishNode(node);
+    }
+
+    function parseTypeParameters(): lang.NodeList<lang.TypeParameter> | undefined {
+        if (!parseOptional(SyntaxKind.LessThanToken)) return undefined;
+        const list = parseDelimitedList(ParsingContext.TypeParameters, parseTypeParameter);
+        if (!list.length) {
+            error(Diagnostics.Type_parameter_list_cannot_be_empty);
+        }
+        parseExpected(SyntaxKind.GreaterThanToken);
+        return list;
+    }
+
+    /** `T`, `T extends U` or `T = U`, where a missing constraint or default becomes a missing type */
+    function parseTypeParameter(): lang.TypeParameter {
+        const node = <lang.TypeParameter>createNode(SyntaxKind.TypeParameter);
+        node.name = parseIdentifier();
+        if (parseOptional(SyntaxKind.ExtendsKeyword)) {
+            node.constraint = parseType();
+        }
+        if (parseOptional(SyntaxKind.EqualsToken)) {
+            node.default = parseType();
+        }
+        return finishNode(node);
+    }
+    function parseTypeArgumentList(listTerminatorIsSemicolon = false): lang.NodeList<lang.Type> | undefined {
+        const list = [];
+        const listPos = scanner.startPos;
+        const listTerminator = listTerminatorIsSemicolon
+            ? SyntaxKind.SemicolonToken
+            : SyntaxKind.GreaterThanToken;
+        while (token !== listTerminator) {
+            if (!isStartOfType()) return undefined;
+            list.push(parseType());
+            if (!parseOptional(SyntaxKind.CommaToken)) break;
+        }
+        return createNodeList(list, listPos);
+    }
+
+    function parseType(): lang.Type {
+        return parseTypeWorker();
+    }
+
+    /** `noConditionalTypes` is set for the extends type of a conditional type, e.g. `A extends B ? C : D` */
+    function parseTypeWorker(noConditionalTypes?: boolean): lang.Type {
+        if (isStartOfFunctionType() || token === SyntaxKind.NewKeyword) {
+            return parseFunctionOrConstructorType();
+        }
+        const type = parseUnionTypeOrHigher();
+        if (!noConditionalTypes && !scanner.hasPrecedingLineBreak() && parseOptional(SyntaxKind.ExtendsKeyword)) {
+            const node = <lang.ConditionalTypeNode>createNode(SyntaxKind.ConditionalType, type.pos);
+            node.checkType = type;
+            node.extendsType = parseTypeWorker(/*noConditionalTypes*/ true);
+            parseExpected(SyntaxKind.QuestionToken);
+            node.trueType = parseTypeWorker();
+            parseExpected(SyntaxKind.ColonToken);
+            node.falseType = parseTypeWorker();
+            return finishNode(node);
+        }
+        return type;
+    }
+
+    /** Return types may be type predicates, e.g. `(x): x is string` */
+    function parseTypeOrTypePredicate(): lang.Type {
+        const parameterName = scanner.isIdentifier() || token === SyntaxKind.ThisKeyword
+            ? tryParse(parseTypePredicatePrefix)
+            : undefined;
+        const type = parseType();
+        if (!parameterName) {
+            return type;
+        }
+        const node = <lang.TypePredicateNode>createNode(SyntaxKind.TypePredicate, parameterName.pos);
+        node.parameterName = parameterName;
+        node.type = type;
+        return finishNode(node);
+    }
+
+    function parseTypePredicatePrefix(): lang.Identifier | lang.KeywordTypeNode | undefined {
+        const name = token === SyntaxKind.ThisKeyword
+            ? parseTokenNode<lang.KeywordTypeNode>()
+            : parseIdentifier();
+        if (token === SyntaxKind.IsKeyword && !scanner.hasPrecedingLineBreak()) {
+            nextToken();
+            return name;
+        }
+        return undefined;
+    }
+
+    /** `asserts x is string` or `asserts x`, where `x` may also be `this` */
+    function parseAssertsTypePredicate(): lang.TypePredicateNode {
+        const node = <lang.TypePredicateNode>createNode(SyntaxKind.TypePredicate);
+        node.assertsModifier = parseTokenNode<lang.Token<SyntaxKind.AssertsKeyword>>();
+        node.parameterName = token === SyntaxKind.ThisKeyword
+            ? parseTokenNode<lang.KeywordTypeNode>()
+            : parseIdentifier();
+        if (parseOptional(SyntaxKind.IsKeyword)) {
+            node.type = parseType();
+        }
+        return finishNode(node);
+    }
+
+    function nextTokenIsIdentifierOrThisOnSameLine(): boolean {
+        nextToken();
+        return (scanner.isIdentifier() || token === SyntaxKind.ThisKeyword) && !scanner.hasPrecedingLineBreak();
+    }
+
+    function parseUnionTypeOrHigher(): lang.Type {
+        return parseUnionOrIntersectionType(SyntaxKind.UnionType, parseIntersectionTypeOrHigher, SyntaxKind.BarToken);
+    }
+
+    function parseIntersectionTypeOrHigher(): lang.Type {
+        return parseUnionOrIntersectionType(SyntaxKind.IntersectionType, parseTypeOperatorOrHigher, SyntaxKind.AmpersandToken);
+    }
+
+    /** A leading operator is allowed, e.g. `| A | B` */
+    function parseUnionOrIntersectionType(
+        kind: SyntaxKind.UnionType | SyntaxKind.IntersectionType,
+        parseConstituentType: () => lang.Type,
+        operator: SyntaxKind.BarToken | SyntaxKind.AmpersandToken
+    ): lang.Type {
+        const start = scanner.startPos;
+        const hasLeadingOperator = parseOptional(operator);
+        let type = parseConstituentType();
+        if (token === operator || hasLeadingOperator) {
+            const types = [type];
+            while (parseOptional(operator)) {
+                types.push(parseConstituentType());
+            }
+            const node = <lang.UnionOrIntersectionTypeNode>createNode(kind, start);
+            node.types = createNodeList(types, start);
+            type = finishNode(node);
+        }
+        return type;
+    }
+
+    function parseTypeOperatorOrHigher(): lang.Type {
+        switch (token) {
+            case SyntaxKind.KeyOfKeyword:
+            case SyntaxKind.UniqueKeyword:
+            case SyntaxKind.ReadonlyKeyword:
+                return parseTypeOperator(token);
+            case SyntaxKind.InferKeyword:
+                return parseInferType();
+        }
+        return parsePostfixTypeOrHigher();
+    }
+
+    function parseTypeOperator(operator: lang.TypeOperatorNode['operator']): lang.TypeOperatorNode {
+        const node = <lang.TypeOperatorNode>createNode(SyntaxKind.TypeOperator);
+        parseExpected(operator);
+        node.operator = operator;
+        node.type = parseTypeOperatorOrHigher();
+        return finishNode(node);
+    }
+
+    function parseInferType(): lang.InferTypeNode {
+        const node = <lang.InferTypeNode>createNode(SyntaxKind.InferType);
+        parseExpected(SyntaxKind.InferKeyword);
+        const typeParameter = <lang.TypeParameter>createNode(SyntaxKind.TypeParameter);
+        typeParameter.name = parseIdentifier();
+        node.typeParameter = finishNode(typeParameter);
+        return finishNode(node);
+    }
+
+    /** Array types `T[]` and indexed access types `T[K]` */
+    function parsePostfixTypeOrHigher(): lang.Type {
+        let type = parseNonArrayType();
+        while (!scanner.hasPrecedingLineBreak() && parseOptional(SyntaxKind.OpenBracketToken)) {
+            if (isStartOfType()) {
+                const node = <lang.IndexedAccessTypeNode>createNode(SyntaxKind.IndexedAccessType, type.pos);
+                node.objectType = type;
+                node.indexType = parseType();
+                parseExpected(SyntaxKind.CloseBracketToken);
+                type = finishNode(node);
+            } else {
+                const node = <lang.ArrayTypeNode>createNode(SyntaxKind.ArrayType, type.pos);
+                node.elementType = type;
+                parseExpected(SyntaxKind.CloseBracketToken);
+                type = finishNode(node);
+            }
+        }
+        return type;
+    }
+
+    function parseNonArrayType(): lang.Type {
+        switch (token) {
+            case SyntaxKind.AnyKeyword:
+            case SyntaxKind.UnknownKeyword:
+            case SyntaxKind.NumberKeyword:
+            case SyntaxKind.BigIntKeyword:
+            case SyntaxKind.ObjectKeyword:
+            case SyntaxKind.BooleanKeyword:
+            case SyntaxKind.StringKeyword:
+            case SyntaxKind.SymbolKeyword:
+            case SyntaxKind.UndefinedKeyword:
+            case SyntaxKind.NeverKeyword:
+                // `string.Foo` is a qualified name
+                if (lookAhead(() => nextToken() === SyntaxKind.DotToken)) {
+                    return parseTypeReference();
+                }
+                return parseTokenNode<lang.KeywordTypeNode>();
+            case SyntaxKind.ThisKeyword:
+            case SyntaxKind.VoidKeyword:
+            case SyntaxKind.NullKeyword:
+                return parseTokenNode<lang.KeywordTypeNode>();
+            case SyntaxKind.StringLiteral:
+            case SyntaxKind.NumericLiteral:
+            case SyntaxKind.BigIntLiteral:
+            case SyntaxKind.TrueKeyword:
+            case SyntaxKind.FalseKeyword:
+            case SyntaxKind.NoSubstitutionTemplateLiteral:
+                return parseLiteralTypeNode();
+            case SyntaxKind.MinusToken:
+                return parseLiteralTypeNode(/*negative*/ true);
+            case SyntaxKind.TypeOfKeyword:
+                return lookAhead(() => nextToken() === SyntaxKind.ImportKeyword)
+                    ? parseImportType()
+                    : parseTypeQuery();
+            case SyntaxKind.ImportKeyword:
+                return parseImportType();
+            case SyntaxKind.OpenBraceToken:
+                return lookAhead(isStartOfMappedType) ? parseMappedType() : parseTypeLiteral();
+            case SyntaxKind.OpenBracketToken:
+                return parseTupleType();
+            case SyntaxKind.OpenParenToken:
+                return parseParenthesizedType();
+            case SyntaxKind.AssertsKeyword:
+                // `asserts` alone is a type reference
+                return lookAhead(nextTokenIsIdentifierOrThisOnSameLine)
+                    ? parseAssertsTypePredicate()
+                    : parseTypeReference();
+            default:
+                if (!scanner.isIdentifier()) {
+                    return createMissingType(Diagnostics.Type_expected);
+                }
+                return parseTypeReference();
+        }
+    }
+
+    function parseTypeReference(): lang.TypeReferenceNode {
+        const node = <lang.TypeReferenceNode>createNode(SyntaxKind.TypeReference);
+        node.typeName = parseEntityName();
+        const typeArguments = parseTypeArgumentsOfTypeReference();
+        if (typeArguments) node.typeArguments = typeArguments;
+        return finishNode(node);
+    }
+
+    function parseTypeArgumentsOfTypeReference(): NodeList<lang.Type> | undefined {
+        if (scanner.hasPrecedingLineBreak() || !parseOptional(SyntaxKind.LessThanToken)) {
+            return undefined;
+        }
+        const typeArguments = parseTypeArgumentList();
+        if (!typeArguments) {
+            error(Diagnostics.Type_argument_list_expected);
+        }
+        parseExpected(SyntaxKind.GreaterThanToken);
+        return typeArguments;
+    }
+
+    function parseEntityName(): lang.EntityName {
+        let entity: lang.EntityName = parseIdentifier();
+        while (parseOptional(SyntaxKind.DotToken)) {
+            const node = <lang.QualifiedName>createNode(SyntaxKind.QualifiedName, entity.pos);
+            node.left = entity;
+            node.right = parseIdentifierName();
+            entity = finishNode(node);
+        }
+        return entity;
+    }
+
+    function parseLiteralTypeNode(negative?: boolean): lang.LiteralTypeNode {
+        const node = <lang.LiteralTypeNode>createNode(SyntaxKind.LiteralType);
+        if (negative) {
+            const unary = <lang.PrefixUnaryExpression>createNode(SyntaxKind.PrefixUnaryExpression);
+            unary.operator = SyntaxKind.MinusToken;
+            nextToken();
+            if (token !== SyntaxKind.NumericLiteral && token !== SyntaxKind.BigIntLiteral) {
+                error(Diagnostics.Type_expected);
+            }
+            unary.operand = parsePrimaryExp();
+            node.literal = finishNode(unary);
+        } else {
+            node.literal = parsePrimaryExp() as lang.LiteralTypeNode['literal'];
+        }
+        return finishNode(node);
+    }
+
+    // `typeof a.b`
+    function parseTypeQuery(): lang.TypeQueryNode {
+        const node = <lang.TypeQueryNode>createNode(SyntaxKind.TypeQuery);
+        parseExpected(SyntaxKind.TypeOfKeyword);
+        node.exprName = parseEntityName();
+        return finishNode(node);
+    }
+
+    // `import("x").A.B<T>` or `typeof import("x")`
+    function parseImportType(): lang.ImportTypeNode {
+        const node = <lang.ImportTypeNode>createNode(SyntaxKind.ImportType);
+        node.isTypeOf = parseOptional(SyntaxKind.TypeOfKeyword);
+        parseExpected(SyntaxKind.ImportKeyword);
+        parseExpected(SyntaxKind.OpenParenToken);
+        node.argument = parseType();
+        parseExpected(SyntaxKind.CloseParenToken);
+        if (parseOptional(SyntaxKind.DotToken)) {
+            node.qualifier = parseEntityName();
+        }
+        const typeArguments = parseTypeArgumentsOfTypeReference();
+        if (typeArguments) node.typeArguments = typeArguments;
+        return finishNode(node);
+    }
+
+    function parseTypeLiteral(): lang.TypeLiteralNode {
+        const node = <lang.TypeLiteralNode>createNode(SyntaxKind.TypeLiteral);
+        node.members = parseObjectTypeMembers();
+        return finishNode(node);
+    }
+
+    /** `{ [K in T]: U }`, `{ readonly [K in T]?: U }`, `{ -readonly [K in T]-?: U }` */
+    function isStartOfMappedType(): boolean {
+        nextToken();
+        if (token === SyntaxKind.PlusToken || token === SyntaxKind.MinusToken) {
+            return nextToken() === SyntaxKind.ReadonlyKeyword;
+        }
+        if (token === SyntaxKind.ReadonlyKeyword) {
+            nextToken();
+        }
+        return token === SyntaxKind.OpenBracketToken && nextTokenIsIdentifier() && nextToken() === SyntaxKind.InKeyword;
+    }
+
+    function parseMappedType(): lang.MappedTypeNode {
+        const node = <lang.MappedTypeNode>createNode(SyntaxKind.MappedType);
+        parseExpected(SyntaxKind.OpenBraceToken);
+        if (token === SyntaxKind.ReadonlyKeyword || token === SyntaxKind.PlusToken || token === SyntaxKind.MinusToken) {
+            node.readonlyToken = parseTokenNode<lang.MappedTypeNode['readonlyToken'] & Node>();
+            if (node.readonlyToken.kind !== SyntaxKind.ReadonlyKeyword) {
+                parseExpected(SyntaxKind.ReadonlyKeyword);
+            }
+        }
+        parseExpected(SyntaxKind.OpenBracketToken);
+        const typeParameter = <lang.TypeParameter>createNode(SyntaxKind.TypeParameter);
+        typeParameter.name = parseIdentifier();
+        parseExpected(SyntaxKind.InKeyword);
+        typeParameter.constraint = parseType();
+        node.typeParameter = finishNode(typeParameter);
+        if (parseOptional(SyntaxKind.AsKeyword)) {
+            node.nameType = parseType();
+        }
+        parseExpected(SyntaxKind.CloseBracketToken);
+        if (token === SyntaxKind.QuestionToken || token === SyntaxKind.PlusToken || token === SyntaxKind.MinusToken) {
+            node.questionToken = parseTokenNode<lang.MappedTypeNode['questionToken'] & Node>();
+            if (node.questionToken.kind !== SyntaxKind.QuestionToken) {
+                parseExpected(SyntaxKind.QuestionToken);
+            }
+        }
+        if (parseOptional(SyntaxKind.ColonToken)) {
+            node.type = parseType();
+        }
+        parseSemicolon();
+        parseExpected(SyntaxKind.CloseBraceToken);
+        return finishNode(node);
+    }
+
+    function parseTupleType(): lang.TupleTypeNode {
+        const node = <lang.TupleTypeNode>createNode(SyntaxKind.TupleType);
+        parseExpected(SyntaxKind.OpenBracketToken);
+        node.elements = parseDelimitedList(ParsingContext.TupleElementTypes, parseTupleElementType);
+        parseExpected(SyntaxKind.CloseBracketToken);
+        return finishNode(node);
+    }
+
+    /** Tuple elements may be optional `[A?]` or rest `[...A[]]` */
+    function parseTupleElementType(): lang.Type {
+        if (token === SyntaxKind.DotDotDotToken) {
+            const rest = <lang.RestTypeNode>createNode(SyntaxKind.RestType);
+            nextToken();
+            rest.type = parseType();
+            return finishNode(rest);
+        }
+        const type = parseType();
+        if (token === SyntaxKind.QuestionToken) {
+            const optional = <lang.OptionalTypeNode>createNode(SyntaxKind.OptionalType, type.pos);
+            optional.type = type;
+            nextToken();
+            return finishNode(optional);
+        }
+        return type;
+    }
+
+    function parseParenthesizedType(): lang.ParenthesizedTypeNode {
+        const node = <lang.ParenthesizedTypeNode>createNode(SyntaxKind.ParenthesizedType);
+        parseExpected(SyntaxKind.OpenParenToken);
+        node.type = parseType();
+        parseExpected(SyntaxKind.CloseParenToken);
+        return finishNode(node);
+    }
+
+    function parseFunctionOrConstructorType(): lang.FunctionOrConstructorTypeNode {
+        const node = <lang.FunctionOrConstructorTypeNode>createNode(
+            token === SyntaxKind.NewKeyword ? SyntaxKind.ConstructorType : SyntaxKind.FunctionType
+        );
+        parseOptional(SyntaxKind.NewKeyword);
+        if (token === SyntaxKind.LessThanToken) {
+            node.typeParameters = parseTypeParameters();
+        }
+        node.parameters = parseParameters();
+        parseExpected(SyntaxKind.EqualsGreaterThanToken);
+        node.type = parseTypeOrTypePredicate();
+        return finishNode(node);
+    }
+
+    /** Whether `(` starts the parameter list of a function type rather than a parenthesized type */
+    function isStartOfFunctionType(): boolean {
+        if (token === SyntaxKind.LessThanToken) {
+            return true;
+        }
+        return token === SyntaxKind.OpenParenToken && lookAhead(isUnambiguouslyStartOfFunctionType);
+    }
+
+    function isUnambiguouslyStartOfFunctionType(): boolean {
+        nextToken();
+        if (token === SyntaxKind.CloseParenToken || token === SyntaxKind.DotDotDotToken) {
+            // ( )
+            // ( ...
+            return true;
+        }
+        if (skipParameterStart()) {
+            // ( a :
+            // ( a ,
+            // ( a ?
+            // ( a =
+            if (token === SyntaxKind.ColonToken || token === SyntaxKind.CommaToken ||
+                token === SyntaxKind.QuestionToken || token === SyntaxKind.EqualsToken) {
+                return true;
+            }
+            // ( a ) =>
+            if ((token as SyntaxKind) === SyntaxKind.CloseParenToken) {
+                return nextToken() === SyntaxKind.EqualsGreaterThanToken;
+            }
+        }
+        return false;
+    }
+
+    function skipParameterStart(): boolean {
+        if (isModifierKind(token)) {
+            parseModifiers();
+        }
+        if (scanner.isIdentifier() || token === SyntaxKind.ThisKeyword ||
+            token === SyntaxKind.PortIdentifier || token === SyntaxKind.AllPortsToken) {
+            nextToken();
+            return true;
+        }
+        if (token === SyntaxKind.OpenBracketToken || token === SyntaxKind.OpenBraceToken) {
+            return skipBindingName();
+        }
+        return false;
+    }
+
+    function isStartOfType(): boolean {
+        switch (token) {
+            case SyntaxKind.AnyKeyword:
+            case SyntaxKind.UnknownKeyword:
+            case SyntaxKind.NumberKeyword:
+            case SyntaxKind.BigIntKeyword:
+            case SyntaxKind.ObjectKeyword:
+            case SyntaxKind.BooleanKeyword:
+            case SyntaxKind.StringKeyword:
+            case SyntaxKind.SymbolKeyword:
+            case SyntaxKind.ThisKeyword:
+            case SyntaxKind.VoidKeyword:
+            case SyntaxKind.UndefinedKeyword:
+            case SyntaxKind.NullKeyword:
+            case SyntaxKind.NeverKeyword:
+            case SyntaxKind.TypeOfKeyword:
+            case SyntaxKind.ImportKeyword:
+            case SyntaxKind.NewKeyword:
+            case SyntaxKind.OpenBraceToken:
+            case SyntaxKind.OpenBracketToken:
+            case SyntaxKind.LessThanToken:
+            case SyntaxKind.BarToken:
+            case SyntaxKind.AmpersandToken:
+            case SyntaxKind.StringLiteral:
+            case SyntaxKind.NumericLiteral:
+            case SyntaxKind.BigIntLiteral:
+            case SyntaxKind.TrueKeyword:
+            case SyntaxKind.FalseKeyword:
+            case SyntaxKind.NoSubstitutionTemplateLiteral:
+                return true;
+            case SyntaxKind.MinusToken:
+                return lookAhead(nextTokenIsNumericOrBigIntLiteral);
+            case SyntaxKind.OpenParenToken:
+                return lookAhead(isStartOfParenthesizedOrFunctionType);
+            default:
+                return scanner.isIdentifier();
+        }
+    }
+
+    function nextTokenIsNumericOrBigIntLiteral(): boolean {
+        nextToken();
+        return token === SyntaxKind.NumericLiteral || token === SyntaxKind.BigIntLiteral;
+    }
+
+    function isStartOfParenthesizedOrFunctionType(): boolean {
+        nextToken();
+        return token === SyntaxKind.CloseParenToken || token === SyntaxKind.DotDotDotToken || isStartOfType();
+    }
+
+    function parseVariableDeclarationWithoutModifiers(opts?: {
+        notParseSemicolon?: boolean,
+        node?: lang.VariableDeclaration,
+    }): lang.VariableDeclaration {
+        opts = opts || {};
+        const notParseSemicolon = opts.notParseSemicolon || false;
+        const node = opts.node || <lang.VariableDeclaration>createNode(SyntaxKind.VariableDeclaration);
+        if (!isCurrentTokenVLC()) {
+            error(Diagnostics.var_let_or_const_expected);
+            node.vlc = SyntaxKind.LetKeyword;
+        } else {
+            node.vlc = token as any;
+            nextToken();
+        }
+        node.isWalrus = false;
+
+        node.declarations = parseDelimitedList(ParsingContext.VariableDeclarations, parseVariableBinding);
+        if (!notParseSemicolon) parseSemicolon();
+        return finishNode(node);
+    }
+
+    function parseVariableBinding(): lang.VariableBinding {
+        const node = <lang.VariableBinding>createNode(SyntaxKind.VariableBinding);
+        node.name = parseIdentifierOrPattern();
+        if (parseOptional(SyntaxKind.EqualsToken)) {
+            node.initializer = parseConnectExp();
+        }
+        return finishNode(node);
+    }
+
+    function isStartOfBindingName(): boolean {
+        return token === SyntaxKind.OpenBracketToken || token === SyntaxKind.OpenBraceToken || isBindingIdentifier();
+    }
+
+    function parseIdentifierOrPattern(): lang.BindingName {
+        if (token === SyntaxKind.OpenBracketToken) {
+            return parseArrayBindingPattern();
+        }
+        if (token === SyntaxKind.OpenBraceToken) {
+            return parseObjectBindingPattern();
+        }
+        return parseIdentifier();
+    }
+
+    function parseArrayBindingPattern(): lang.ArrayBindingPattern {
+        const node = <lang.ArrayBindingPattern>createNode(SyntaxKind.ArrayBindingPattern);
+        parseExpected(SyntaxKind.OpenBracketToken);
+        node.elements = parseDelimitedList(ParsingContext.ArrayBindingElements, parseArrayBindingElement);
+        parseExpected(SyntaxKind.CloseBracketToken);
+        return finishNode(node);
+    }
+
+    function parseArrayBindingElement(): lang.ArrayBindingElement {
+        if (token === SyntaxKind.CommaToken) {
+            return finishNode(<lang.OmittedExpression>createNode(SyntaxKind.OmittedExpression));
+        }
+        const node = <lang.BindingElement>createNode(SyntaxKind.BindingElement);
+        const dotDotDotToken = parseOptionalToken(SyntaxKind.DotDotDotToken);
+        if (dotDotDotToken) node.dotDotDotToken = dotDotDotToken;
+        node.name = parseIdentifierOrPattern();
+        if (parseOptional(SyntaxKind.EqualsToken)) {
+            node.initializer = parseConnectExp();
+        }
+        return finishNode(node);
+    }
+
+    function parseObjectBindingPattern(): lang.ObjectBindingPattern {
+        const node = <lang.ObjectBindingPattern>createNode(SyntaxKind.ObjectBindingPattern);
+        parseExpected(SyntaxKind.OpenBraceToken);
+        node.elements = parseDelimitedList(ParsingContext.ObjectBindingElements, parseObjectBindingElement);
+        parseExpected(SyntaxKind.CloseBraceToken);
+        return finishNode(node);
+    }
+
+    /** `a`, `a = 1`, `a: b`, `a: [b] = []` or `...a` */
+    function parseObjectBindingElement(): lang.BindingElement {
+        const node = <lang.BindingElement>createNode(SyntaxKind.BindingElement);
+        const dotDotDotToken = parseOptionalToken(SyntaxKind.DotDotDotToken);
+        if (dotDotDotToken) node.dotDotDotToken = dotDotDotToken;
+        const tokenIsIdentifier = isBindingIdentifier();
+        const propertyName = parsePropertyName();
+        if (tokenIsIdentifier && token !== SyntaxKind.ColonToken) {
+            node.name = propertyName as lang.Identifier;
+        } else {
+            parseExpected(SyntaxKind.ColonToken);
+            node.propertyName = propertyName;
+            node.name = parseIdentifierOrPattern();
+        }
+        if (parseOptional(SyntaxKind.EqualsToken)) {
+            node.initializer = parseConnectExp();
+        }
+        return finishNode(node);
+    }
+
+    /**
+     * Skips an identifier or a bracketed binding pattern in look-ahead, so that what follows can
+     * be checked without parsing the pattern. Returns false if the brackets are unbalanced.
+     */
+    function skipBindingName(): boolean {
+        if (isBindingIdentifier()) {
+            nextToken();
+            return true;
+        }
+        if (token !== SyntaxKind.OpenBracketToken && token !== SyntaxKind.OpenBraceToken) {
+            return false;
+        }
+        let depth = 0;
+        do {
+            switch (token as SyntaxKind) {
+                case SyntaxKind.OpenBracketToken:
+                case SyntaxKind.OpenBraceToken:
+                    depth++;
+                    break;
+                case SyntaxKind.CloseBracketToken:
+                case SyntaxKind.CloseBraceToken:
+                    depth--;
+                    break;
+                case SyntaxKind.EndOfFileToken:
+                    return false;
+            }
+            nextToken();
+        } while (depth > 0);
+        return true;
+    }
+
+    function parseClassExpression(): lang.ClassExpression {
+        const node = <lang.ClassExpression>createNode(SyntaxKind.ClassExpression);
+        return parseClassDeclarationOrExpression(node) as lang.ClassExpression;
+    }
+
+    function parseClassDeclarationOrExpression(node: lang.Class_): lang.Class_ {
+        parseExpected(SyntaxKind.ClassKeyword);
+        if (isBindingIdentifier()) {
+            node.name = parseIdentifier();
+        }
+        if (token === SyntaxKind.LessThanToken) {
+            node.typeParameters = parseTypeParameters();
+        }
+        const heritageClauses = parseHeritageClauses();
+        if (heritageClauses) node.heritageClauses = heritageClauses;
+
+        if (parseExpected(SyntaxKind.OpenBraceToken)) {
+            node.members = parseList(ParsingContext.ClassMembers, parseClassElement);
+            parseExpected(SyntaxKind.CloseBraceToken);
+        } else {
+            node.members = createNodeList([], scanner.startPos);
+        }
+        return finishNode(node);
+    }
+
+    function parseHeritageClauses(): NodeList<lang.HeritageClause> | undefined {
+        let list: lang.HeritageClause[] | undefined;
+        const listPos = scanner.startPos;
+        while (token === SyntaxKind.ExtendsKeyword || token === SyntaxKind.ImplementsKeyword) {
+            const clause = <lang.HeritageClause>createNode(SyntaxKind.HeritageClause);
+            clause.token = token;
+            nextToken();
+            clause.types = parseDelimitedList(ParsingContext.HeritageClauseElement, parseExpressionWithTypeArguments);
+            // `class C extends { }` names no base type
+            if (!clause.types.length) {
+                error(Diagnostics.Expression_expected);
+            }
+            (list || (list = [])).push(finishNode(clause));
+        }
+        return list && createNodeList(list, listPos);
+    }
+
+    function parseExpressionWithTypeArguments(): lang.ExpressionWithTypeArguments {
+        const node = <lang.ExpressionWithTypeArguments>createNode(SyntaxKind.ExpressionWithTypeArguments);
+        node.expression = parseLeftHandExp();
+        if (parseOptional(SyntaxKind.LessThanToken)) {
+            const typeArguments = parseTypeArgumentList();
+            if (!typeArguments) {
+                error(Diagnostics.Type_argument_list_expected);
+            } else {
+                node.typeArguments = typeArguments;
+            }
+            parseExpected(SyntaxKind.GreaterThanToken);
+        }
+        return finishNode(node);
+    }
+
+    function parseClassElement(): lang.ClassElement {
+        if (token === SyntaxKind.SemicolonToken) {
+            const semicolon = <lang.SemicolonClassElement>createNode(SyntaxKind.SemicolonClassElement);
+            nextToken();
+            return finishNode(semicolon);
+        }
+
+        const node = <lang.ClassElementBase>createNode(SyntaxKind.Unknown);
+        const decorators = parseDecorators();
+        const modifiers = parseModifiers();
+        if (decorators) node.decorators = decorators;
+        if (modifiers) node.modifiers = modifiers;
+
+        if ((token === SyntaxKind.GetKeyword || token === SyntaxKind.SetKeyword) &&
+            lookAhead(nextTokenCanFollowModifierOnSameLine)
+        ) {
+            return parseAccessorDeclaration(node as lang.AccessorDeclaration);
+        }
+        if (token === SyntaxKind.ConstructorKeyword &&
+            lookAhead(() => nextToken() === SyntaxKind.OpenParenToken)
+        ) {
+            const ctor = node as lang.ConstructorDeclaration;
+            ctor.kind = SyntaxKind.Constructor;
+            nextToken();
+            addCallSignature(ctor);
+            const body = parseFunctionBlockOrSemicolon();
+            if (body) ctor.body = body;
+            return finishNode(ctor);
+        }
+        if (isLiteralPropertyName() ||
+            token === SyntaxKind.OpenBracketToken ||
+            token === SyntaxKind.AsteriskToken
+        ) {
+            return parsePropertyOrMethodDeclaration(node as lang.PropertyDeclaration | lang.MethodDeclaration);
+        }
+
+        // Skip the token that cannot start a class member
+        error(Diagnostics.Declaration_expected);
+        nextToken();
+        node.kind = SyntaxKind.MissingDeclaration;
+        return finishNode(node) as lang.MissingDeclaration;
+    }
 
-        node.arguments = parseArguments();
+    function parseAccessorDeclaration(node: lang.AccessorDeclaration): lang.AccessorDeclaration {
+        node.kind = token === SyntaxKind.GetKeyword ? SyntaxKind.GetAccessor : SyntaxKind.SetAccessor;
+        nextToken();
+        node.name = parsePropertyName();
+        addCallSignature(node);
+        const body = parseFunctionBlockOrSemicolon();
+        if (body) node.body = body;
         return finishNode(node);
     }
 
-    function parseTypeParameters(): lang.NodeList<lang.TypeParameter> | undefined {
-        if (!parseOptional(SyntaxKind.LessThanToken)) return undefined;
-        const list = [];
-        const listPos = scanner.startPos;
-        while (token !== SyntaxKind.GreaterThanToken) {
-            const node = <lang.TypeParameter>createNode(SyntaxKind.TypeParameter);
-            if (!scanner.isIdentifier()) return undefined;
-            node.name = parseIdentifier();
-            if (token === SyntaxKind.ExtendsKeyword) {
-                nextToken();
-                if (!canBeType(token)) return undefined;
-                node.constraint = parseType();
-            }
-            list.push(finishNode(node));
-            if (!parseOptional(SyntaxKind.CommaToken)) break;
+    function parsePropertyOrMethodDeclaration(
+        node: lang.PropertyDeclaration | lang.MethodDeclaration
+    ): lang.PropertyDeclaration | lang.MethodDeclaration {
+        const asteriskToken = parseOptionalToken(SyntaxKind.AsteriskToken);
+        node.name = parsePropertyName();
+        const questionToken = parseOptionalToken(SyntaxKind.QuestionToken);
+        if (questionToken) node.questionToken = questionToken;
+
+        if (asteriskToken || token === SyntaxKind.OpenParenToken || token === SyntaxKind.LessThanToken) {
+            const method = node as lang.MethodDeclaration;
+            method.kind = SyntaxKind.MethodDeclaration;
+            if (asteriskToken) method.asteriskToken = asteriskToken;
+            addCallSignature(method);
+            const body = parseFunctionBlockOrSemicolon();
+            if (body) method.body = body;
+            return finishNode(method);
         }
-        if (!parseOptional(SyntaxKind.GreaterThanToken)) return undefined;
-        return createNodeList(list, listPos);
+
+        const property = node as lang.PropertyDeclaration;
+        property.kind = SyntaxKind.PropertyDeclaration;
+        if (!questionToken) {
+            const exclamationToken = parseOptionalToken(SyntaxKind.ExclamationToken);
+            if (exclamationToken) property.exclamationToken = exclamationToken;
+        }
+        if (parseOptional(SyntaxKind.ColonToken)) {
+            property.type = parseType();
+        }
+        if (parseOptional(SyntaxKind.EqualsToken)) {
+            property.initializer = parseConnectExp();
+        }
+        parseSemicolon();
+        return finishNode(property);
     }
-    function parseTypeArgumentList(listTerminatorIsSemicolon = false): lang.NodeList<lang.Type> | undefined {
-        const list = [];
-        const listPos = scanner.startPos;
-        const listTerminator = listTerminatorIsSemicolon
-            ? SyntaxKind.SemicolonToken
-            : SyntaxKind.GreaterThanToken;
-        while (token !== listTerminator) {
-            if (!canBeType(token)) return undefined;
-            list.push(parseType());
-            if (!parseOptional(SyntaxKind.CommaToken)) break;
+
+    /** Body of function-like declarations, which may be omitted for overloads and abstract methods */
+    function parseFunctionBlockOrSemicolon(): lang.Block | undefined {
+        if (token === SyntaxKind.OpenBraceToken) {
+            return parseBlock();
         }
-        return createNodeList(list, listPos);
+        if (canParseSemicolon()) {
+            parseSemicolon();
+        } else {
+            error(Diagnostics.or_block_expected);
+        }
+        return undefined;
     }
 
-    function parseType(): lang.Type {
-        if (!canBeType(token)) {
-            error('Type literal expected.');
-            const node = <lang.Type>createNode(SyntaxKind.UnknownKeyword);
-            return finishNode(node);
+    function parseInterfaceDeclaration(node: lang.InterfaceDeclaration): lang.InterfaceDeclaration {
+        parseExpected(SyntaxKind.InterfaceKeyword);
+        node.name = parseIdentifier();
+        if (token === SyntaxKind.LessThanToken) {
+            node.typeParameters = parseTypeParameters();
         }
-        const node = <lang.Type>createNode(token);
-        nextToken();
+        const heritageClauses = parseHeritageClauses();
+        if (heritageClauses) node.heritageClauses = heritageClauses;
+        node.members = parseObjectTypeMembers();
         return finishNode(node);
     }
 
-    function canBeType(t: SyntaxKind): boolean {
-        switch (t) {
-            case SyntaxKind.AnyKeyword:
-            case SyntaxKind.UnknownKeyword:
-            case SyntaxKind.NumberKeyword:
-            case SyntaxKind.BigIntKeyword:
-            case SyntaxKind.ObjectKeyword:
-            case SyntaxKind.BooleanKeyword:
-            case SyntaxKind.StringKeyword:
-            case SyntaxKind.SymbolKeyword:
-            case SyntaxKind.ThisKeyword:
-            case SyntaxKind.VoidKeyword:
-            case SyntaxKind.UndefinedKeyword:
-            case SyntaxKind.NullKeyword:
-            case SyntaxKind.NeverKeyword:
-                return true;
-            default:
-                return false;
+    function parseTypeAliasDeclaration(node: lang.TypeAliasDeclaration): lang.TypeAliasDeclaration {
+        parseExpected(SyntaxKind.TypeKeyword);
+        node.name = parseIdentifier();
+        if (token === SyntaxKind.LessThanToken) {
+            node.typeParameters = parseTypeParameters();
         }
+        parseExpected(SyntaxKind.EqualsToken);
+        node.type = parseType();
+        parseSemicolon();
+        return finishNode(node);
     }
 
-    function parseVariableDeclarationWithoutModifiers(opts?: {
-        notParseSemicolon?: boolean,
-        node?: lang.VariableDeclaration,
-    }): lang.VariableDeclaration {
-        opts = opts || {};
-        const notParseSemicolon = opts.notParseSemicolon || false;
-        const node = opts.node || <lang.VariableDeclaration>createNode(SyntaxKind.VariableDeclaration);
-        if (!isCurrentTokenVLC()) {
-            error('var/let/const expected.');
-            node.vlc = SyntaxKind.LetKeyword;
+    function parseObjectTypeMembers(): NodeList<lang.TypeElement> {
+        if (parseExpected(SyntaxKind.OpenBraceToken)) {
+            const members = parseList(ParsingContext.TypeMembers, parseTypeMember);
+            parseExpected(SyntaxKind.CloseBraceToken);
+            return members;
+        }
+        return createNodeList([], scanner.startPos);
+    }
+
+    function parseTypeMember(): lang.TypeElement {
+        if (token === SyntaxKind.OpenParenToken || token === SyntaxKind.LessThanToken) {
+            const signature = <lang.CallSignatureDeclaration>createNode(SyntaxKind.CallSignature);
+            addCallSignature(signature);
+            parseTypeMemberSemicolon();
+            return finishNode(signature);
+        }
+        if (token === SyntaxKind.NewKeyword && lookAhead(nextTokenIsOpenParenOrLessThan)) {
+            const signature = <lang.ConstructSignatureDeclaration>createNode(SyntaxKind.ConstructSignature);
+            nextToken();
+            addCallSignature(signature);
+            parseTypeMemberSemicolon();
+            return finishNode(signature);
+        }
+
+        const node = <lang.TypeElementBase>createNode(SyntaxKind.Unknown);
+        const modifiers = parseModifiers();
+        if (modifiers) node.modifiers = modifiers;
+
+        if (token === SyntaxKind.OpenBracketToken && lookAhead(isUnambiguouslyIndexSignature)) {
+            return parseIndexSignatureDeclaration(node as lang.IndexSignatureDeclaration);
+        }
+        if (isLiteralPropertyName() || token === SyntaxKind.OpenBracketToken) {
+            return parsePropertyOrMethodSignature(node as lang.PropertySignature | lang.MethodSignature);
+        }
+
+        // Skip the token that cannot start a type member
+        error(Diagnostics.Property_or_signature_expected);
+        nextToken();
+        node.kind = SyntaxKind.MissingDeclaration;
+        return finishNode(node) as lang.MissingDeclaration;
+    }
+
+    function nextTokenIsOpenParenOrLessThan(): boolean {
+        nextToken();
+        return token === SyntaxKind.OpenParenToken || token === SyntaxKind.LessThanToken;
+    }
+
+    /** Distinguishes `[key: string]: T` from a computed property name such as `[Symbol.iterator]()` */
+    function isUnambiguouslyIndexSignature(): boolean {
+        nextToken();
+        if (token === SyntaxKind.DotDotDotToken || token === SyntaxKind.CloseBracketToken) {
+            return true;
+        }
+        if (isModifierKind(token)) {
+            nextToken();
+            if (scanner.isIdentifier()) return true;
+        } else if (!scanner.isIdentifier()) {
+            return false;
         } else {
-            node.vlc = token as any;
             nextToken();
         }
-        node.isWalrus = false;
+        if (token === SyntaxKind.ColonToken || token === SyntaxKind.CommaToken) {
+            return true;
+        }
+        if (token !== SyntaxKind.QuestionToken) {
+            return false;
+        }
+        nextToken();
+        return (token as SyntaxKind) === SyntaxKind.ColonToken ||
+            (token as SyntaxKind) === SyntaxKind.CommaToken ||
+            (token as SyntaxKind) === SyntaxKind.CloseBracketToken;
+    }
 
-        node.declarations = parseDelimitedList(ParsingContext.VariableDeclarations, parseVariableBinding);
-        if (!notParseSemicolon) parseExpected(SyntaxKind.SemicolonToken);
+    function parseIndexSignatureDeclaration(node: lang.IndexSignatureDeclaration): lang.IndexSignatureDeclaration {
+        node.kind = SyntaxKind.IndexSignature;
+        parseExpected(SyntaxKind.OpenBracketToken);
+        node.parameters = parseDelimitedList(ParsingContext.Parameters, parseParameter);
+        parseExpected(SyntaxKind.CloseBracketToken);
+        parseExpected(SyntaxKind.ColonToken);
+        node.type = parseType();
+        parseTypeMemberSemicolon();
         return finishNode(node);
     }
 
-    function parseVariableBinding(): lang.VariableBinding {
-        const node = <lang.VariableBinding>createNode(SyntaxKind.VariableBinding);
+    function parsePropertyOrMethodSignature(
+        node: lang.PropertySignature | lang.MethodSignature
+    ): lang.PropertySignature | lang.MethodSignature {
+        node.name = parsePropertyName();
+        const questionToken = parseOptionalToken(SyntaxKind.QuestionToken);
+        if (questionToken) node.questionToken = questionToken;
+
+        if (token === SyntaxKind.OpenParenToken || token === SyntaxKind.LessThanToken) {
+            const method = node as lang.MethodSignature;
+            method.kind = SyntaxKind.MethodSignature;
+            addCallSignature(method);
+            parseTypeMemberSemicolon();
+            return finishNode(method);
+        }
+
+        const property = node as lang.PropertySignature;
+        property.kind = SyntaxKind.PropertySignature;
+        if (parseOptional(SyntaxKind.ColonToken)) {
+            property.type = parseType();
+        }
+        parseTypeMemberSemicolon();
+        return finishNode(property);
+    }
+
+    /** Type members are separated by `;` or `,`, or by automatic semicolon insertion */
+    function parseTypeMemberSemicolon(): void {
+        if (parseOptional(SyntaxKind.CommaToken)) {
+            return;
+        }
+        parseSemicolon();
+    }
+
+    function parseEnumDeclaration(node: lang.EnumDeclaration): lang.EnumDeclaration {
+        parseExpected(SyntaxKind.EnumKeyword);
         node.name = parseIdentifier();
+        if (parseExpected(SyntaxKind.OpenBraceToken)) {
+            node.members = parseDelimitedList(ParsingContext.EnumMembers, parseEnumMember);
+            parseExpected(SyntaxKind.CloseBraceToken);
+        } else {
+            node.members = createNodeList([], scanner.startPos);
+        }
+        return finishNode(node);
+    }
+
+    function parseEnumMember(): lang.EnumMember {
+        const node = <lang.EnumMember>createNode(SyntaxKind.EnumMember);
+        node.name = parsePropertyName();
         if (parseOptional(SyntaxKind.EqualsToken)) {
             node.initializer = parseConnectExp();
         }
         return finishNode(node);
     }
 
-    function parseClassExpression(): lang.ClassExpression {
-        return undefined as any;
+    function parseModuleDeclaration(node: lang.NamespaceDeclaration): lang.NamespaceDeclaration {
+        if (token === SyntaxKind.GlobalKeyword) {
+            return parseAmbientExternalModuleDeclaration(node);
+        }
+        if (parseOptional(SyntaxKind.NamespaceKeyword)) {
+            node.flags |= NodeFlags.Namespace;
+        } else {
+            parseExpected(SyntaxKind.ModuleKeyword);
+            if (token === SyntaxKind.StringLiteral) {
+                return parseAmbientExternalModuleDeclaration(node);
+            }
+        }
+        return parseModuleOrNamespaceDeclaration(node);
+    }
+
+    /** `namespace A.B.C {}` is parsed as `namespace A { namespace B { namespace C {} } }` */
+    function parseModuleOrNamespaceDeclaration(node: lang.NamespaceDeclaration): lang.NamespaceDeclaration {
+        node.name = parseIdentifier();
+        if (parseOptional(SyntaxKind.DotToken)) {
+            const nested = <lang.NamespaceDeclaration>createNode(SyntaxKind.ModuleDeclaration);
+            nested.flags |= NodeFlags.NestedNamespace | (node.flags & NodeFlags.Namespace);
+            node.body = parseModuleOrNamespaceDeclaration(nested);
+        } else {
+            node.body = parseModuleBlock();
+        }
+        return finishNode(node);
+    }
+
+    /** `declare module "x" {}`, `declare module "x";` and `declare global {}` */
+    function parseAmbientExternalModuleDeclaration(node: lang.NamespaceDeclaration): lang.NamespaceDeclaration {
+        if (token === SyntaxKind.GlobalKeyword) {
+            node.name = parseIdentifier();
+            node.flags |= NodeFlags.GlobalAugmentation;
+        } else {
+            node.name = parseStringLiteral();
+        }
+        if (token === SyntaxKind.OpenBraceToken) {
+            node.body = parseModuleBlock();
+        } else {
+            parseSemicolon();
+        }
+        return finishNode(node);
+    }
+
+    function parseModuleBlock(): lang.ModuleBlock {
+        const node = <lang.ModuleBlock>createNode(SyntaxKind.ModuleBlock);
+        if (parseExpected(SyntaxKind.OpenBraceToken)) {
+            node.statements = parseList(ParsingContext.BlockStatements, parseStatement);
+            parseExpected(SyntaxKind.CloseBraceToken);
+        } else {
+            node.statements = createNodeList([], scanner.startPos);
+        }
+        return finishNode(node);
+    }
+
+    function parseImportDeclarationOrImportEqualsDeclaration(
+        node: lang.Declaration
+    ): lang.ImportDeclaration | lang.ImportEqualsDeclaration {
+        parseExpected(SyntaxKind.ImportKeyword);
+        const afterImportPos = scanner.startPos;
+
+        let identifier: lang.Identifier | undefined;
+        if (isBindingIdentifier()) {
+            identifier = parseIdentifier();
+        }
+
+        // `import type from "x"` imports a default binding named `type`
+        let isTypeOnly = false;
+        if (token !== SyntaxKind.FromKeyword &&
+            identifier && identifier.originalKeywordKind === SyntaxKind.TypeKeyword &&
+            (scanner.isIdentifier() || token === SyntaxKind.AsteriskToken || token === SyntaxKind.OpenBraceToken)
+        ) {
+            isTypeOnly = true;
+            identifier = scanner.isIdentifier() ? parseIdentifier() : undefined;
+        }
+
+        if (identifier && token !== SyntaxKind.CommaToken && token !== SyntaxKind.FromKeyword) {
+            return parseImportEqualsDeclaration(node as lang.ImportEqualsDeclaration, identifier, isTypeOnly);
+        }
+
+        const importDeclaration = node as lang.ImportDeclaration;
+        importDeclaration.kind = SyntaxKind.ImportDeclaration;
+        // `import "x"` is imported only for its side effects
+        if (identifier || token === SyntaxKind.AsteriskToken || token === SyntaxKind.OpenBraceToken) {
+            importDeclaration.importClause = parseImportClause(identifier, afterImportPos, isTypeOnly);
+            parseExpected(SyntaxKind.FromKeyword);
+        }
+        importDeclaration.moduleSpecifier = parseStringLiteral();
+        parseSemicolon();
+        return finishNode(importDeclaration);
+    }
+
+    function parseImportEqualsDeclaration(
+        node: lang.ImportEqualsDeclaration,
+        identifier: lang.Identifier,
+        isTypeOnly: boolean
+    ): lang.ImportEqualsDeclaration {
+        node.kind = SyntaxKind.ImportEqualsDeclaration;
+        node.isTypeOnly = isTypeOnly;
+        node.name = identifier;
+        parseExpected(SyntaxKind.EqualsToken);
+        node.moduleReference = token === SyntaxKind.RequireKeyword && lookAhead(nextTokenIsOpenParen)
+            ? parseExternalModuleReference()
+            : parseEntityName();
+        parseSemicolon();
+        return finishNode(node);
+    }
+
+    function nextTokenIsOpenParen(): boolean {
+        return nextToken() === SyntaxKind.OpenParenToken;
+    }
+
+    function parseExternalModuleReference(): lang.ExternalModuleReference {
+        const node = <lang.ExternalModuleReference>createNode(SyntaxKind.ExternalModuleReference);
+        parseExpected(SyntaxKind.RequireKeyword);
+        parseExpected(SyntaxKind.OpenParenToken);
+        node.expression = parseStringLiteral();
+        parseExpected(SyntaxKind.CloseParenToken);
+        return finishNode(node);
+    }
+
+    function parseImportClause(identifier: lang.Identifier | undefined, pos: number, isTypeOnly: boolean): lang.ImportClause {
+        const node = <lang.ImportClause>createNode(SyntaxKind.ImportClause, pos);
+        node.isTypeOnly = isTypeOnly;
+        if (identifier) node.name = identifier;
+
+        // `import a, * as ns from "x"`, `import a, { b } from "x"`
+        if (!identifier || parseOptional(SyntaxKind.CommaToken)) {
+            node.namedBindings = token === SyntaxKind.AsteriskToken
+                ? parseNamespaceImport()
+                : parseNamedImportsOrExports();
+        }
+        return finishNode(node);
+    }
+
+    function parseNamespaceImport(): lang.NamespaceImport {
+        const node = <lang.NamespaceImport>createNode(SyntaxKind.NamespaceImport);
+        parseExpected(SyntaxKind.AsteriskToken);
+        parseExpected(SyntaxKind.AsKeyword);
+        node.name = parseIdentifier();
+        return finishNode(node);
+    }
+
+    function parseNamedImportsOrExports(): lang.NamedImportsOrExports {
+        const node = <lang.NamedImportsOrExports>createNode(SyntaxKind.NamedImportsOrExports);
+        if (parseExpected(SyntaxKind.OpenBraceToken)) {
+            node.elements = parseDelimitedList(ParsingContext.ImportOrExportSpecifiers, parseImportOrExportSpecifier);
+            parseExpected(SyntaxKind.CloseBraceToken);
+        } else {
+            node.elements = createNodeList([], scanner.startPos);
+        }
+        return finishNode(node);
+    }
+
+    function parseImportOrExportSpecifier(): lang.ImportOrExportSpecifier {
+        const node = <lang.ImportOrExportSpecifier>createNode(SyntaxKind.ImportOrExportSpecifier);
+        const identifierName = parseIdentifierName();
+        if (parseOptional(SyntaxKind.AsKeyword)) {
+            node.propertyName = identifierName;
+            node.name = parseIdentifierName();
+        } else {
+            node.name = identifierName;
+        }
+        return finishNode(node);
+    }
+
+    /** `export` that is not a modifier of the declaration following it */
+    function parseExportDeclarationOrAssignment(node: lang.Declaration): lang.ExportDeclaration | lang.ExportAssignment {
+        parseExpected(SyntaxKind.ExportKeyword);
+        if (parseOptional(SyntaxKind.EqualsToken)) {
+            const assignment = node as lang.ExportAssignment;
+            assignment.kind = SyntaxKind.ExportAssignment;
+            assignment.expression = parseConnectExp();
+            parseSemicolon();
+            return finishNode(assignment);
+        }
+
+        const exportDeclaration = node as lang.ExportDeclaration;
+        exportDeclaration.kind = SyntaxKind.ExportDeclaration;
+        if (parseOptional(SyntaxKind.DefaultKeyword)) {
+            exportDeclaration.expression = parseConnectExp();
+            parseSemicolon();
+            return finishNode(exportDeclaration);
+        }
+
+        if (parseOptional(SyntaxKind.AsteriskToken)) {
+            if (token === SyntaxKind.AsKeyword) {
+                exportDeclaration.exportClause = parseNamespaceExport();
+            }
+            parseExpected(SyntaxKind.FromKeyword);
+            exportDeclaration.moduleSpecifier = parseStringLiteral();
+        } else {
+            exportDeclaration.exportClause = parseNamedImportsOrExports();
+            // `export { a } from "foo"` re-exports, while `export { a }` exports local declarations
+            if (token === SyntaxKind.FromKeyword ||
+                token === SyntaxKind.StringLiteral && !scanner.hasPrecedingLineBreak()
+            ) {
+                parseExpected(SyntaxKind.FromKeyword);
+                exportDeclaration.moduleSpecifier = parseStringLiteral();
+            }
+        }
+        parseSemicolon();
+        return finishNode(exportDeclaration);
+    }
+
+    function parseNamespaceExport(): lang.NamespaceExport {
+        const node = <lang.NamespaceExport>createNode(SyntaxKind.NamespaceExport);
+        parseExpected(SyntaxKind.AsKeyword);
+        node.name = parseIdentifierName();
+        return finishNode(node);
     }
 
     function parseFunctionExpressionWithoutModifiers(opts?: { node?: lang.FunctionExpression }): lang.FunctionExpression {
@@ -1516,7 +3168,7 @@ export namespace Parser {
         const node = opts.node || <lang.FunctionExpression>createNode(SyntaxKind.FunctionExpression);
         const fn = parseFunctionWithoutModifiers(node) as lang.FunctionExpression;
         if (!fn.body) {
-            error('Function expression must have body block.');
+            error(Diagnostics.Function_expression_must_have_body_block);
         }
         return fn;
     }
@@ -1524,21 +3176,13 @@ export namespace Parser {
     function parseFunctionWithoutModifiers(node: lang.Function_): lang.Function_ {
         parseExpected(SyntaxKind.FunctionKeyword);
         node.asteriskToken = parseOptionalToken(SyntaxKind.AsteriskToken);
-        if (scanner.isIdentifier()) {
+        if (isBindingIdentifier()) {
             node.name = parseIdentifier();
         }
         addCallSignature(node);
-        switch (token) {
-            case SyntaxKind.SemicolonToken:
-                nextToken();
-                return finishNode(node);
-            case SyntaxKind.OpenBraceToken:
-                node.body = parseBlock();
-                return finishNode(node);
-            default:
-                error('; or block expected.');
-                return finishNode(node);
-        }
+        const body = parseFunctionBlockOrSemicolon();
+        if (body) node.body = body;
+        return finishNode(node);
     }
 
     function isStartOfNode_(): boolean {
@@ -1585,7 +3229,7 @@ export namespace Parser {
         } else if (token === SyntaxKind.SubnetKeyword) {
             node.isSubnet = true;
         } else {
-            error('node or subnet expected.');
+            error(Diagnostics.node_or_subnet_expected);
             return finishNode(node);
         }
         nextToken();
@@ -1608,42 +3252,37 @@ export namespace Parser {
     }
 
     function parseNodeStatement(): lang.NodeStatement {
-        if (token === SyntaxKind.StateKeyword && lookAhead(() =>
-            nextToken() === SyntaxKind.ColonToken
-        )) {
-            const node = <lang.NodeStateDeclaration>createNode(SyntaxKind.NodeStateDeclaration);
-            node.kind = SyntaxKind.NodeStateDeclaration;
+        const pos = scanner.startPos;
+        const decorators = parseDecorators();
+        if (!lookAhead(isStartOfNodeMemberDeclaration)) {
+            // Decorators before anything else belong to a declaration, e.g. `@logged node N {}`
+            return decorators ? parseDeclarationWithDecorators(pos, decorators) : parseStatement();
+        }
+
+        if (token === SyntaxKind.StateKeyword) {
+            const node = <lang.NodeStateDeclaration>createNode(SyntaxKind.NodeStateDeclaration, pos);
+            if (decorators) node.decorators = decorators;
             nextToken(); nextToken();
-            (node as lang.NodeStateDeclaration).expression = parseAssignExp();
+            node.expression = parseAssignExp();
             parseSemicolon();
             return finishNode(node);
         }
-
-        let whichKind = 0;
-        if (token === SyntaxKind.Identifier) {
-            const name = scanner.tokenValue!;
-            if (name === '$$' || name.charAt(0) === '$') {
-                if (lookAhead(() => nextToken() === SyntaxKind.ColonToken)) {
-                    whichKind = name === '$$' ? 1 : 2;
-                }
-            }
-        }
-
-        if (whichKind === 0) return parseStatement();
-        if (whichKind === 1) {
-            const node = <lang.NodeAllPortTypeDeclaration>createNode(SyntaxKind.NodeAllPortTypeDeclaration);
+        if (token === SyntaxKind.AllPortsToken) {
+            const node = <lang.NodeAllPortTypeDeclaration>createNode(SyntaxKind.NodeAllPortTypeDeclaration, pos);
+            if (decorators) node.decorators = decorators;
             nextToken();
             nextToken();
             const types = parseTypeArgumentList(/*listTerminatorIsSemicolon*/true);
             if (!types) {
-                error('Expected list of type argument.');
+                error(Diagnostics.Type_argument_list_expected);
             }
             node.types = types!;
             parseSemicolon();
             return finishNode(node);
         }
-        const node = <lang.NodePortTypeDeclaration>createNode(SyntaxKind.NodePortTypeDeclaration);
-        node.portName = parseIdentifier();
+        const node = <lang.NodePortTypeDeclaration>createNode(SyntaxKind.NodePortTypeDeclaration, pos);
+        if (decorators) node.decorators = decorators;
+        node.portName = parsePortIdentifier();
         nextToken();
         node.type = parseType();
         parseSemicolon();
@@ -1651,6 +3290,17 @@ export namespace Parser {
     }
 
 
+    /** `state: ...`, `$$: ...` or `$port: ...` */
+    function isStartOfNodeMemberDeclaration(): boolean {
+        if (token !== SyntaxKind.StateKeyword &&
+            token !== SyntaxKind.AllPortsToken &&
+            token !== SyntaxKind.PortIdentifier
+        ) {
+            return false;
+        }
+        return nextToken() === SyntaxKind.ColonToken;
+    }
+
     function isStartOfDeclaration(): boolean {
         return lookAhead(isDeclaration);
     }
@@ -1672,14 +3322,22 @@ export namespace Parser {
 
                 case SyntaxKind.InterfaceKeyword:
                 case SyntaxKind.TypeKeyword:
-                    return (nextToken(), scanner.isIdentifier());
+                    return (nextToken(), isBindingIdentifier());
                 case SyntaxKind.NamespaceKeyword:
+                case SyntaxKind.ModuleKeyword:
                     return (nextToken(), scanner.isIdentifier() || token === SyntaxKind.StringLiteral);
+                case SyntaxKind.GlobalKeyword:
+                    return nextToken() === SyntaxKind.OpenBraceToken;
 
                 case SyntaxKind.AbstractKeyword:
                 case SyntaxKind.AsyncKeyword:
                     nextToken();
                     continue;
+                case SyntaxKind.DeclareKeyword:
+                    nextToken();
+                    // `declare` followed by a line break is an identifier
+                    if (scanner.hasPrecedingLineBreak()) return false;
+                    continue;
 
                 case SyntaxKind.ImportKeyword:
                     nextToken();
@@ -1687,7 +3345,7 @@ export namespace Parser {
                         token === SyntaxKind.OpenBraceToken || scanner.isIdentifier();
                 case SyntaxKind.ExportKeyword:
                     nextToken();
-                    if (token === SyntaxKind.AsteriskToken ||
+                    if (token === SyntaxKind.AsteriskToken || token === SyntaxKind.EqualsToken ||
                         token === SyntaxKind.OpenBraceToken || token === SyntaxKind.DefaultKeyword) {
                         return true;
                     }
@@ -1699,8 +3357,13 @@ export namespace Parser {
     }
 
     function parseDeclaration(): lang.Declaration {
-        const node = <lang.Declaration>createNode(SyntaxKind.Unknown);
-        const decorators = parseDecorators();
+        const pos = scanner.startPos;
+        return parseDeclarationWithDecorators(pos, parseDecorators());
+    }
+
+    /** Continues a declaration whose decorators, if any, have already been parsed from `pos` */
+    function parseDeclarationWithDecorators(pos: number, decorators: NodeList<lang.Decorator> | undefined): lang.Declaration {
+        const node = <lang.Declaration>createNode(SyntaxKind.Unknown, pos);
         const modifiers = parseModifiers();
         if (decorators) (node as any).decorators = decorators;
         if (modifiers) (node as any).modifiers = modifiers;
@@ -1749,8 +3412,14 @@ export namespace Parser {
             case SyntaxKind.AbstractKeyword:
             case SyntaxKind.AsyncKeyword:
             case SyntaxKind.ConstKeyword:
+            case SyntaxKind.DeclareKeyword:
             case SyntaxKind.DefaultKeyword:
             case SyntaxKind.ExportKeyword:
+            case SyntaxKind.PrivateKeyword:
+            case SyntaxKind.ProtectedKeyword:
+            case SyntaxKind.PublicKeyword:
+            case SyntaxKind.ReadonlyKeyword:
+            case SyntaxKind.StaticKeyword:
                 return true;
         }
         return false;
@@ -1774,14 +3443,33 @@ export namespace Parser {
                 nextToken();
                 return tokenCanFollowDefaultKeyword();
             case SyntaxKind.AbstractKeyword:
-                return nextToken() === SyntaxKind.ClassKeyword;
+                return nextToken() === SyntaxKind.ClassKeyword || canFollowModifierOnSameLine();
             case SyntaxKind.AsyncKeyword:
                 nextToken();
                 return token === SyntaxKind.FunctionKeyword ||
                     token === SyntaxKind.NodeKeyword ||
-                    token === SyntaxKind.SubnetKeyword;
+                    token === SyntaxKind.SubnetKeyword ||
+                    canFollowModifierOnSameLine();
         }
-        return false;
+        // Modifiers of class members and parameters, e.g. `public`, `static`
+        return nextTokenCanFollowModifierOnSameLine();
+    }
+
+    function nextTokenCanFollowModifierOnSameLine(): boolean {
+        nextToken();
+        return canFollowModifierOnSameLine();
+    }
+
+    /** Otherwise the modifier is a name itself, e.g. `static() {}`, `readonly: boolean` */
+    function canFollowModifierOnSameLine(): boolean {
+        return !scanner.hasPrecedingLineBreak() && (
+            token === SyntaxKind.OpenBracketToken ||
+            token === SyntaxKind.AsteriskToken ||
+            token === SyntaxKind.DotDotDotToken ||
+            token === SyntaxKind.PortIdentifier ||
+            token === SyntaxKind.AllPortsToken ||
+            isLiteralPropertyName()
+        );
     }
 
     function tokenCanFollowDefaultKeyword(): boolean {
@@ -1805,10 +3493,16 @@ export namespace Parser {
 
     function tokenCanFollowExportKeyword(): boolean {
         if (tokenCanFollowDefaultKeyword()) return true;
-        return token === SyntaxKind.InterfaceKeyword && lookAhead(nextTokenIsIdentifier) ||
+        return token === SyntaxKind.VarKeyword ||
+            token === SyntaxKind.LetKeyword ||
+            token === SyntaxKind.ConstKeyword ||
+            token === SyntaxKind.InterfaceKeyword && lookAhead(nextTokenIsIdentifier) ||
             token === SyntaxKind.TypeKeyword && lookAhead(nextTokenIsIdentifier) ||
             token === SyntaxKind.EnumKeyword && lookAhead(nextTokenIsIdentifier) ||
-            token === SyntaxKind.NamespaceKeyword && lookAhead(nextTokenIsIdentifierOrStringLiteral);
+            token === SyntaxKind.DeclareKeyword && lookAhead(nextTokenCanFollowModifier) ||
+            token === SyntaxKind.ImportKeyword && lookAhead(nextTokenIsIdentifier) || // export import a = b;
+            token === SyntaxKind.NamespaceKeyword && lookAhead(nextTokenIsIdentifierOrStringLiteral) ||
+            token === SyntaxKind.ModuleKeyword && lookAhead(nextTokenIsIdentifierOrStringLiteral);
     }
 
     function nextTokenIsIdentifier() {
@@ -1830,25 +3524,35 @@ export namespace Parser {
                 node.kind = SyntaxKind.FunctionDeclaration;
                 return parseFunctionWithoutModifiers(node as any) as lang.FunctionDeclaration;
             case SyntaxKind.ClassKeyword:
-                return {} as any;
+                node.kind = SyntaxKind.ClassDeclaration;
+                return parseClassDeclarationOrExpression(node as any) as lang.ClassDeclaration;
             case SyntaxKind.InterfaceKeyword:
-                return {} as any;
+                node.kind = SyntaxKind.InterfaceDeclaration;
+                return parseInterfaceDeclaration(node as any);
             case SyntaxKind.TypeKeyword:
-                return {} as any;
+                node.kind = SyntaxKind.TypeAliasDeclaration;
+                return parseTypeAliasDeclaration(node as any);
             case SyntaxKind.EnumKeyword:
-                return {} as any;
+                node.kind = SyntaxKind.EnumDeclaration;
+                return parseEnumDeclaration(node as any);
             case SyntaxKind.NamespaceKeyword:
-                return {} as any;
+            case SyntaxKind.ModuleKeyword:
+            case SyntaxKind.GlobalKeyword:
+                node.kind = SyntaxKind.ModuleDeclaration;
+                return parseModuleDeclaration(node as any);
             case SyntaxKind.ImportKeyword:
-                return {} as any;
+                return parseImportDeclarationOrImportEqualsDeclaration(node);
             case SyntaxKind.ExportKeyword:
-                return {} as any;
+                return parseExportDeclarationOrAssignment(node);
             case SyntaxKind.NodeKeyword:
             case SyntaxKind.SubnetKeyword:
                 node.kind = SyntaxKind.NodeDeclaration;
                 return parseNode_WithoutModifiers(node as any) as lang.NodeDeclaration;
             default:
-                return {} as any;
+                // Decorators or modifiers followed by something that is not a declaration
+                node.kind = SyntaxKind.MissingDeclaration;
+                error(Diagnostics.Declaration_expected);
+                return finishNode(node) as lang.MissingDeclaration;
         }
     }
 }
@@ -1,4 +1,4 @@
-import { SyntaxKind, TokenFlags } from './lang-types';
+import { DiagnosticCategory, SyntaxKind, TokenFlags } from './lang-types';
 
 export const enum ParsingContext {
     SourceElements,            // Elements in source file
@@ -11,6 +11,15 @@ export const enum ParsingContext {
     ArrayLiteralMembers,       // Members in array literal
     Parameters,                // Parameters in parameter list
     NodeBlock,
+    ClassMembers,              // Members in class declaration or expression
+    HeritageClauseElement,     // Elements in a heritage clause
+    TypeParameters,            // Type parameters in type parameter list
+    TypeMembers,               // Members in interface or type literal
+    EnumMembers,               // Members in enum declaration
+    ImportOrExportSpecifiers,  // Named import clause or named export clause
+    TupleElementTypes,         // Element types in tuple element type list
+    ObjectBindingElements,     // Binding elements in object binding list
+    ArrayBindingElements,      // Binding elements in array binding list
     Count,                     // Number of parsing contexts
 }
 
@@ -19,6 +28,45 @@ export interface TextRange {
     end: number;
 }
 
+export interface DiagnosticMessage {
+    key: string;
+    category: DiagnosticCategory;
+    code: number;
+    /** May contain placeholders `{0}`, `{1}`... for the arguments */
+    message: string;
+}
+
+export interface Diagnostic {
+    file: SourceFile | undefined;
+    start: number;
+    length: number;
+    category: DiagnosticCategory;
+    code: number;
+    message: string;
+}
+
+/** Zero-based line and character of a position in a source file */
+export interface LineAndCharacter {
+    line: number;
+    /** UTF-16 code units from the start of the line */
+    character: number;
+}
+
+export interface CommentRange extends TextRange {
+    kind: SyntaxKind.SingleLineCommentTrivia | SyntaxKind.MultiLineCommentTrivia;
+    hasTrailingNewLine?: boolean;
+}
+
+/** A token of the token stream, see `tokenize` */
+export interface TokenInfo extends TextRange {
+    kind: SyntaxKind;
+    /** Source text of the token */
+    text: string;
+    /** Name of an identifier, or value of a literal or template part */
+    value?: string;
+    flags: TokenFlags;
+}
+
 export interface Node extends TextRange {
     kind: SyntaxKind;
     flags: NodeFlags;
@@ -47,6 +95,10 @@ export type ModifiersList = NodeList<Modifier>;
 
 export const enum NodeFlags {
     None = 0,
+    Namespace = 1 << 0,          // Declared with `namespace` rather than `module`
+    NestedNamespace = 1 << 1,    // `B` and `C` in `namespace A.B.C {}`
+    GlobalAugmentation = 1 << 2, // `declare global {}`
+    Missing = 1 << 3,            // Zero-width node synthesized for a token or name absent from the source
 }
 
 export interface Token<TKind extends SyntaxKind> extends Node {
@@ -113,6 +165,19 @@ export interface Identifier extends PrimaryExp {
     originalKeywordKind?: SyntaxKind;
 }
 
+// e.g. $in, $out
+export interface PortIdentifier extends PrimaryExp {
+    kind: SyntaxKind.PortIdentifier;
+    text: string; // with the leading `$`
+}
+
+// $$, all ports of the node
+export interface AllPortsExpression extends PrimaryExp {
+    kind: SyntaxKind.AllPortsToken;
+}
+
+export type PortName = PortIdentifier | AllPortsExpression;
+
 export interface BooleanLiteral extends PrimaryExp {
     kind: SyntaxKind.TrueKeyword | SyntaxKind.FalseKeyword;
 }
@@ -123,11 +188,71 @@ export interface NumericLiteral extends PrimaryExp {
     text: string;
 }
 
+// e.g. 0xFFFF_FFFFn
+export interface BigIntLiteral extends PrimaryExp {
+    kind: SyntaxKind.BigIntLiteral;
+    numericLiteralFlags: TokenFlags;
+    text: string;
+}
+
 export interface StringLiteral extends PrimaryExp {
     kind: SyntaxKind.StringLiteral;
     text: string;
 }
 
+// e.g. /^\$[a-z]+$/gi
+export interface RegularExpressionLiteral extends PrimaryExp {
+    kind: SyntaxKind.RegularExpressionLiteral;
+    /** Whole literal including slashes and flags */
+    text: string;
+}
+
+// e.g. `Hello World`
+export interface NoSubstitutionTemplateLiteral extends PrimaryExp {
+    kind: SyntaxKind.NoSubstitutionTemplateLiteral;
+    /** Cooked text, with escape sequences evaluated */
+    text: string;
+    /** Text between the delimiters, as written in the source */
+    rawText: string;
+}
+
+export interface TemplateHead extends Node {
+    kind: SyntaxKind.TemplateHead;
+    parent: TemplateExpression;
+    text: string;
+    rawText: string;
+}
+export interface TemplateMiddle extends Node {
+    kind: SyntaxKind.TemplateMiddle;
+    parent: TemplateSpan;
+    text: string;
+    rawText: string;
+}
+export interface TemplateTail extends Node {
+    kind: SyntaxKind.TemplateTail;
+    parent: TemplateSpan;
+    text: string;
+    rawText: string;
+}
+
+export type TemplateLiteral = NoSubstitutionTemplateLiteral | TemplateExpression;
+
+// e.g. `Hello ${name}, you have ${count} messages`
+export interface TemplateExpression extends PrimaryExp {
+    kind: SyntaxKind.TemplateExpression;
+    head: TemplateHead;
+    templateSpans: NodeList<TemplateSpan>;
+}
+
+// Each of these corresponds to a substitution expression and a template literal, in that order.
+// The template literal must have kind TemplateMiddle or TemplateTail.
+export interface TemplateSpan extends Node {
+    kind: SyntaxKind.TemplateSpan;
+    parent: TemplateExpression;
+    expression: Expression;
+    literal: TemplateMiddle | TemplateTail;
+}
+
 export interface NullLiteral extends PrimaryExp {
     kind: SyntaxKind.NullKeyword;
 }
@@ -144,11 +269,15 @@ export interface ObjectLiteral extends PrimaryExp {
 export type PropertyDefinition =
     | ShorthandPropertyAssignment
     | PropertyAssignment
-    | SpreadExpression;
+    | SpreadExpression
+    | MethodDeclaration
+    | AccessorDeclaration;
 
 export interface ShorthandPropertyAssignment extends Node {
     kind: SyntaxKind.ShorthandPropertyAssignment;
     name: Identifier;
+    // The `1` of `{ a = 1 } = obj`
+    objectAssignmentInitializer?: ConnectExp;
     parent: ObjectLiteral;
 }
 export interface PropertyAssignment extends Node {
@@ -205,7 +334,7 @@ export interface PropertyAccessExpression extends MemberExp, CallExp {
     kind: SyntaxKind.PropertyAccessExpression;
     expression: LeftHandExp;
     questionDotToken?: Token<SyntaxKind.QuestionDotToken>;
-    name: Identifier;
+    name: Identifier | PortIdentifier;
 }
 
 export interface ElementAccessExpression extends MemberExp, CallExp {
@@ -223,6 +352,14 @@ export interface CallExpression extends CallExp {
     arguments: Arguments;
 }
 
+// e.g. tag`Hello ${name}`
+export interface TaggedTemplateExpression extends MemberExp {
+    kind: SyntaxKind.TaggedTemplateExpression;
+    tag: LeftHandExp;
+    typeArguments?: NodeList<Type>;
+    template: TemplateLiteral;
+}
+
 export interface Arguments extends Node {
     kind: SyntaxKind.Arguments;
     list: NodeList<ConnectExp | SpreadExpression>;
@@ -389,10 +526,133 @@ export interface KeywordTypeNode extends Type {
     | SyntaxKind.NeverKeyword;
 }
 
+export interface TypeReferenceNode extends Type {
+    kind: SyntaxKind.TypeReference;
+    typeName: EntityName;
+    typeArguments?: NodeList<Type>;
+}
+
+export type EntityName = Identifier | QualifiedName;
+
+// `x is string`, `asserts x is string` or `asserts x` as a return type
+export interface TypePredicateNode extends Type {
+    kind: SyntaxKind.TypePredicate;
+    assertsModifier?: Token<SyntaxKind.AssertsKeyword>;
+    parameterName: Identifier | KeywordTypeNode;
+    type?: Type;
+}
+
+// `(a: A) => B` or `new (a: A) => B`
+export interface FunctionOrConstructorTypeNode extends Type, CallSignature {
+    kind: SyntaxKind.FunctionType | SyntaxKind.ConstructorType;
+    type: Type;
+}
+
+// `typeof a.b`
+export interface TypeQueryNode extends Type {
+    kind: SyntaxKind.TypeQuery;
+    exprName: EntityName;
+}
+
+export interface TypeLiteralNode extends Type {
+    kind: SyntaxKind.TypeLiteral;
+    members: NodeList<TypeElement>;
+}
+
+export interface ArrayTypeNode extends Type {
+    kind: SyntaxKind.ArrayType;
+    elementType: Type;
+}
+
+export interface TupleTypeNode extends Type {
+    kind: SyntaxKind.TupleType;
+    elements: NodeList<Type>;
+}
+
+export interface OptionalTypeNode extends Type {
+    kind: SyntaxKind.OptionalType;
+    type: Type;
+}
+
+export interface RestTypeNode extends Type {
+    kind: SyntaxKind.RestType;
+    type: Type;
+}
+
+export interface UnionOrIntersectionTypeNode extends Type {
+    kind: SyntaxKind.UnionType | SyntaxKind.IntersectionType;
+    types: NodeList<Type>;
+}
+
+// `checkType extends extendsType ? trueType : falseType`
+export interface ConditionalTypeNode extends Type {
+    kind: SyntaxKind.ConditionalType;
+    checkType: Type;
+    extendsType: Type;
+    trueType: Type;
+    falseType: Type;
+}
+
+// `infer U` in the extends type of a conditional type
+export interface InferTypeNode extends Type {
+    kind: SyntaxKind.InferType;
+    typeParameter: TypeParameter;
+}
+
+export interface ParenthesizedTypeNode extends Type {
+    kind: SyntaxKind.ParenthesizedType;
+    type: Type;
+}
+
+export interface TypeOperatorNode extends Type {
+    kind: SyntaxKind.TypeOperator;
+    operator: SyntaxKind.KeyOfKeyword | SyntaxKind.UniqueKeyword | SyntaxKind.ReadonlyKeyword;
+    type: Type;
+}
+
+// `objectType[indexType]`
+export interface IndexedAccessTypeNode extends Type {
+    kind: SyntaxKind.IndexedAccessType;
+    objectType: Type;
+    indexType: Type;
+}
+
+// `{ readonly [K in T as N]?: U }`
+export interface MappedTypeNode extends Type {
+    kind: SyntaxKind.MappedType;
+    readonlyToken?: Token<SyntaxKind.ReadonlyKeyword | SyntaxKind.PlusToken | SyntaxKind.MinusToken>;
+    typeParameter: TypeParameter;
+    nameType?: Type;
+    questionToken?: Token<SyntaxKind.QuestionToken | SyntaxKind.PlusToken | SyntaxKind.MinusToken>;
+    type?: Type;
+}
+
+export interface LiteralTypeNode extends Type {
+    kind: SyntaxKind.LiteralType;
+    literal: StringLiteral | NumericLiteral | BigIntLiteral | NoSubstitutionTemplateLiteral | BooleanLiteral | PrefixUnaryExpression;
+}
+
+// `import("x").A<T>` or `typeof import("x")`
+export interface ImportTypeNode extends Type {
+    kind: SyntaxKind.ImportType;
+    isTypeOf: boolean;
+    argument: Type;
+    qualifier?: EntityName;
+    typeArguments?: NodeList<Type>;
+}
+
+// `NS.Packet` in a type position
+export interface QualifiedName extends Node {
+    kind: SyntaxKind.QualifiedName;
+    left: EntityName;
+    right: Identifier;
+}
+
 export interface TypeParameter extends Node {
     kind: SyntaxKind.TypeParameter;
     name: Identifier;
     constraint?: Type;
+    default?: Type;
 }
 
 /***************** Part of Statement *****************/
@@ -433,6 +693,11 @@ export interface DebuggerStatement extends Statement {
     kind: SyntaxKind.DebuggerStatement;
 }
 
+export interface ThrowStatement extends Statement {
+    kind: SyntaxKind.ThrowStatement;
+    expression: Expression;
+}
+
 export interface LabeledStatement extends Statement {
     kind: SyntaxKind.LabeledStatement;
     label: Identifier;
@@ -468,7 +733,7 @@ export interface ForInStatement extends Statement {
     | SyntaxKind.VarKeyword
     | SyntaxKind.LetKeyword
     | SyntaxKind.ConstKeyword;
-    identifier: Identifier;
+    identifier: BindingName;
     expression: Expression;
     block: Block;
 }
@@ -479,11 +744,26 @@ export interface ForOfStatement extends Statement {
     | SyntaxKind.VarKeyword
     | SyntaxKind.LetKeyword
     | SyntaxKind.ConstKeyword;
-    identifier: Identifier;
+    identifier: BindingName;
     expression: ConnectExp;
     block: Block;
 }
 
+// `while cond {}`, or `while a := next(); a {}`
+export interface WhileStatement extends Statement {
+    kind: SyntaxKind.WhileStatement;
+    variableDeclaration?: VariableDeclaration;
+    expression: Expression;
+    block: Block;
+}
+
+// `do {} while cond;`
+export interface DoStatement extends Statement {
+    kind: SyntaxKind.DoStatement;
+    block: Block;
+    expression: Expression;
+}
+
 export interface SwitchStatement extends Statement {
     kind: SyntaxKind.SwitchStatement;
     variableDeclaration?: VariableDeclaration;
@@ -541,8 +821,33 @@ export interface ImportDeclaration extends Declaration {
 export interface ImportClause extends Node {
     kind: SyntaxKind.ImportClause;
     parent: ImportDeclaration;
+    isTypeOnly: boolean; // `import type ...`
     name?: Identifier; // Default binding
-    namedBindings?: NamedImportsOrExports;
+    namedBindings?: NamespaceImport | NamedImportsOrExports;
+}
+
+// `* as ns` in `import * as ns from "x"`
+export interface NamespaceImport extends Node {
+    kind: SyntaxKind.NamespaceImport;
+    parent: ImportClause;
+    name: Identifier;
+}
+
+// `import x = require("x")` or `import x = NS.x`
+export interface ImportEqualsDeclaration extends Declaration {
+    kind: SyntaxKind.ImportEqualsDeclaration;
+    modifiers?: ModifiersList;
+    isTypeOnly: boolean;
+    name: Identifier;
+    moduleReference: ModuleReference;
+}
+
+export type ModuleReference = EntityName | ExternalModuleReference;
+
+export interface ExternalModuleReference extends Node {
+    kind: SyntaxKind.ExternalModuleReference;
+    parent: ImportEqualsDeclaration;
+    expression: StringLiteral;
 }
 
 export interface NamedImportsOrExports extends Node {
@@ -560,13 +865,26 @@ export interface ImportOrExportSpecifier extends Node {
 export interface ExportDeclaration extends Declaration {
     kind: SyntaxKind.ExportDeclaration;
     /** Will not be assigned in the case of `export * from "foo";` */
-    exportClause?: NamedImportsOrExports;
+    exportClause?: NamedImportsOrExports | NamespaceExport;
     moduleSpecifier?: StringLiteral;
 
     /** Will be assigned in the case of `export default 12345;` */
     expression?: ConnectExp;
 }
 
+// `* as ns` in `export * as ns from "foo"`
+export interface NamespaceExport extends Node {
+    kind: SyntaxKind.NamespaceExport;
+    parent: ExportDeclaration;
+    name: Identifier;
+}
+
+// `export = expression;`
+export interface ExportAssignment extends Declaration {
+    kind: SyntaxKind.ExportAssignment;
+    expression: ConnectExp;
+}
+
 
 export interface VariableDeclaration extends Declaration {
     kind: SyntaxKind.VariableDeclaration;
@@ -581,7 +899,32 @@ export interface VariableDeclaration extends Declaration {
 export interface VariableBinding extends Node {
     kind: SyntaxKind.VariableBinding;
     parent: VariableDeclaration;
-    name: Identifier;
+    name: BindingName;
+    initializer?: ConnectExp;
+}
+
+export type BindingName = Identifier | BindingPattern;
+export type BindingPattern = ObjectBindingPattern | ArrayBindingPattern;
+
+// `{ a, b: [c], ...d }` in a declaration
+export interface ObjectBindingPattern extends Node {
+    kind: SyntaxKind.ObjectBindingPattern;
+    elements: NodeList<BindingElement>;
+}
+
+// `[a, , ...b]` in a declaration
+export interface ArrayBindingPattern extends Node {
+    kind: SyntaxKind.ArrayBindingPattern;
+    elements: NodeList<ArrayBindingElement>;
+}
+
+export type ArrayBindingElement = BindingElement | OmittedExpression;
+
+export interface BindingElement extends Node {
+    kind: SyntaxKind.BindingElement;
+    propertyName?: PropertyName; // `b` in `{ b: [c] }`
+    dotDotDotToken?: Token<SyntaxKind.DotDotDotToken>;
+    name: BindingName;
     initializer?: ConnectExp;
 }
 
@@ -596,7 +939,77 @@ export interface ClassDeclaration extends Class_, Declaration {
 }
 
 export interface Class_ extends Node {
+    kind: SyntaxKind.ClassDeclaration | SyntaxKind.ClassExpression;
     modifiers?: ModifiersList;
+    name?: Identifier;
+    typeParameters?: NodeList<TypeParameter>;
+    heritageClauses?: NodeList<HeritageClause>;
+    members: NodeList<ClassElement>;
+}
+
+export interface HeritageClause extends Node {
+    kind: SyntaxKind.HeritageClause;
+    token: SyntaxKind.ExtendsKeyword | SyntaxKind.ImplementsKeyword;
+    types: NodeList<ExpressionWithTypeArguments>;
+}
+
+// e.g. Base<string> in `class A extends Base<string> {}`
+export interface ExpressionWithTypeArguments extends Node {
+    kind: SyntaxKind.ExpressionWithTypeArguments;
+    expression: LeftHandExp;
+    typeArguments?: NodeList<Type>;
+}
+
+export type ClassElement =
+    | PropertyDeclaration
+    | MethodDeclaration
+    | ConstructorDeclaration
+    | AccessorDeclaration
+    | SemicolonClassElement
+    | MissingDeclaration
+    ;
+
+export interface ClassElementBase extends Node {
+    decorators?: NodeList<Decorator>;
+    modifiers?: ModifiersList;
+}
+
+export interface PropertyDeclaration extends ClassElementBase {
+    kind: SyntaxKind.PropertyDeclaration;
+    name: PropertyName;
+    questionToken?: Token<SyntaxKind.QuestionToken>;
+    exclamationToken?: Token<SyntaxKind.ExclamationToken>;
+    type?: Type;
+    initializer?: ConnectExp;
+}
+
+export interface MethodDeclaration extends ClassElementBase, CallSignature {
+    kind: SyntaxKind.MethodDeclaration;
+    asteriskToken?: Token<SyntaxKind.AsteriskToken>;
+    name: PropertyName;
+    questionToken?: Token<SyntaxKind.QuestionToken>;
+    body?: Block;
+}
+
+export interface ConstructorDeclaration extends ClassElementBase, CallSignature {
+    kind: SyntaxKind.Constructor;
+    body?: Block;
+}
+
+export interface AccessorDeclaration extends ClassElementBase, CallSignature {
+    kind: SyntaxKind.GetAccessor | SyntaxKind.SetAccessor;
+    name: PropertyName;
+    body?: Block;
+}
+
+// A `;` between class members
+export interface SemicolonClassElement extends Node {
+    kind: SyntaxKind.SemicolonClassElement;
+}
+
+// Placeholder of a declaration failed to parse
+export interface MissingDeclaration extends Declaration {
+    kind: SyntaxKind.MissingDeclaration;
 }
 
 export interface FunctionDeclaration extends Function_, Declaration {
@@ -612,7 +1025,9 @@ export interface Function_ extends CallSignature, Node {
 
 export interface Parameter extends Node {
     kind: SyntaxKind.Parameter;
-    name: Identifier;
+    decorators?: NodeList<Decorator>;
+    modifiers?: ModifiersList; // parameter properties, e.g. constructor(private a: number)
+    name: Identifier | PortName | BindingPattern;
     dotDotDotToken?: Token<SyntaxKind.DotDotDotToken>;
     questionToken?: Token<SyntaxKind.QuestionToken>;
     type?: Type;
@@ -647,21 +1062,71 @@ export type NodeStatement =
 
 export interface NodeStateDeclaration extends Declaration {
     kind: SyntaxKind.NodeStateDeclaration;
+    decorators?: NodeList<Decorator>; // e.g. `@persist state: {...}`
     expression: Expression;
 }
 export interface NodeAllPortTypeDeclaration extends Declaration {
     kind: SyntaxKind.NodeAllPortTypeDeclaration;
+    decorators?: NodeList<Decorator>;
     types: NodeList<Type>;
 }
 export interface NodePortTypeDeclaration extends Declaration {
     kind: SyntaxKind.NodePortTypeDeclaration;
-    portName: Identifier;
+    decorators?: NodeList<Decorator>; // e.g. `@buffered(16) $in: Frame;`
+    portName: PortIdentifier;
     type: Type;
 }
 
-export interface InterfaceDeclaraion extends Declaration {
+export interface InterfaceDeclaration extends Declaration {
     kind: SyntaxKind.InterfaceDeclaration;
     modifiers?: ModifiersList;
+    name: Identifier;
+    typeParameters?: NodeList<TypeParameter>;
+    heritageClauses?: NodeList<HeritageClause>;
+    members: NodeList<TypeElement>;
+}
+
+export type TypeElement =
+    | PropertySignature
+    | MethodSignature
+    | CallSignatureDeclaration
+    | ConstructSignatureDeclaration
+    | IndexSignatureDeclaration
+    | MissingDeclaration
+    ;
+
+export interface TypeElementBase extends Node {
+    modifiers?: ModifiersList; // only `readonly` is meaningful
+}
+
+export interface PropertySignature extends TypeElementBase {
+    kind: SyntaxKind.PropertySignature;
+    name: PropertyName;
+    questionToken?: Token<SyntaxKind.QuestionToken>;
+    type?: Type;
+}
+
+export interface MethodSignature extends TypeElementBase, CallSignature {
+    kind: SyntaxKind.MethodSignature;
+    name: PropertyName;
+    questionToken?: Token<SyntaxKind.QuestionToken>;
+}
+
+// `(a: number): string`
+export interface CallSignatureDeclaration extends TypeElementBase, CallSignature {
+    kind: SyntaxKind.CallSignature;
+}
+
+// `new (a: number): Foo`
+export interface ConstructSignatureDeclaration extends TypeElementBase, CallSignature {
+    kind: SyntaxKind.ConstructSignature;
+}
+
+// `[key: string]: number`
+export interface IndexSignatureDeclaration extends TypeElementBase {
+    kind: SyntaxKind.IndexSignature;
+    parameters: NodeList<Parameter>;
+    type: Type;
 }
 
 export interface TypeAliasDeclaration extends Declaration {
@@ -674,6 +1139,7 @@ export interface TypeAliasDeclaration extends Declaration {
 
 export interface EnumDeclaration extends Declaration {
     kind: SyntaxKind.EnumDeclaration;
+    modifiers?: ModifiersList; // `const enum`, `declare enum`, `export enum`
     name: Identifier;
     members: NodeList<EnumMember>;
 }
@@ -681,13 +1147,23 @@ export interface EnumDeclaration extends Declaration {
 export interface EnumMember extends Node {
     kind: SyntaxKind.EnumMember;
     parent: EnumDeclaration;
-    name: Identifier;
+    name: PropertyName;
     initializer?: ConnectExp;
 }
 
 export interface NamespaceDeclaration extends Declaration {
     kind: SyntaxKind.ModuleDeclaration;
     modifiers?: ModifiersList;
+    name: ModuleName;
+    body?: ModuleBody; // omitted in `declare module "x";`
+}
+
+export type ModuleName = Identifier | StringLiteral;
+export type ModuleBody = ModuleBlock | NamespaceDeclaration;
+
+export interface ModuleBlock extends Statement {
+    kind: SyntaxKind.ModuleBlock;
+    statements: NodeList<Statement>;
 }
 
 export interface SourceFile extends Node {
@@ -697,5 +1173,12 @@ export interface SourceFile extends Node {
     fileName: string;
     text: string;
 
+    /** Errors reported by the scanner and parser */
+    parseDiagnostics: Diagnostic[];
+    /** Tokens the parser discarded while recovering from errors, in source order */
+    skippedTokens?: Array<Token<SyntaxKind>>;
+
     /* @internal */ nodeCount: number;
+    /** Start position of each line, computed on first use */
+    /* @internal */ lineMap?: readonly number[];
 }
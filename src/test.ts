@@ -26,8 +26,8 @@ function walk(node: any) {
         }
     } else {
         for (const k of Object.keys(node)) {
-            if (k === 'parent') {
-                delete node.parent;
+            if (k === 'parent' || k === 'parseDiagnostics') {
+                delete node[k];
                 continue;
             }
             const item = node[k];
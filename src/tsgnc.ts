@@ -1,14 +1,21 @@
 import chalk from 'chalk';
 import fs from 'fs-extra';
 import yargs from 'yargs';
-import { Scanner, SyntaxKind, TokenFlags } from './index';
-import { Parser } from './syntactic';
+import {
+    computeLineAndCharacterOfPosition, computeLineStarts, createFileDiagnostic, Diagnostic, DiagnosticCategory,
+    getLineAndCharacterOfPosition, Scanner, SyntaxKind, TokenFlags, TokenInfo, tokenize,
+} from './index';
+import { createParser } from './syntactic';
 
 const argv = yargs.argv;
 
 switch (argv._[0]) {
     case 'lex':
-        doLexAnalysisOverFiles(argv._.slice(1));
+        if (argv.json || argv.ndjson) {
+            doTokenizeOverFiles(argv._.slice(1), !!argv.trivia, !!argv.ndjson);
+        } else {
+            doLexAnalysisOverFiles(argv._.slice(1), !!argv.trivia);
+        }
         break;
     case 'syntax':
         doSyntaxAnalysisOverFiles(argv._.slice(1), !!argv.pos);
@@ -22,9 +29,12 @@ function printHelp() {
 Usage: tsgnc <command> [options]
 
 Commands:
-    lex <filepath>,<filepath>,...                   Do lexical analysis for the given files.
+    lex <filepath>,<filepath>,... [--trivia]        Do lexical analysis for the given files.
+        [--json | --ndjson]                         Add --trivia flag to output comments and whitespaces.
+                                                    Add --json flag to output the tokens of all files as JSON,
+                                                    or --ndjson flag to output one token per line.
     syntax <filepath>,<filepath>,... [--pos]        Do syntax analysis for the given files.
-                                                    Add --pos flag to output position of each node.
+                                                    Add --pos flag to output position, line and character of each node.
 `
     );
 }
@@ -36,9 +46,9 @@ function doSyntaxAnalysisOverFiles(args: string[], addPos: boolean) {
     }
 
     const filepaths = args.join('').split(',');
-    const parser = Parser;
+    const parser = createParser();
 
-    function walk(node: any) {
+    function walk(node: any, lineStarts: readonly number[]) {
         if (typeof (node as any).kind !== 'undefined') {
             (node as any).kind = SyntaxKind[(node as any).kind];
         }
@@ -54,16 +64,22 @@ function doSyntaxAnalysisOverFiles(args: string[], addPos: boolean) {
         }
         if (Array.isArray(node)) {
             for (const item of node) {
-                if (typeof item === 'object') walk(item);
+                if (typeof item === 'object') walk(item, lineStarts);
             }
         } else {
             for (const k of Object.keys(node)) {
-                if (k === 'parent') {
-                    delete node.parent;
+                if (k === 'parent' || k === 'lineMap' || k === 'parseDiagnostics') {
+                    delete node[k];
                     continue;
                 }
                 const item = node[k];
-                if (typeof item === 'object') walk(item);
+                if (typeof item === 'object') walk(item, lineStarts);
+            }
+            if (addPos && typeof node.pos === 'number' && typeof node.end === 'number') {
+                node.loc = {
+                    start: computeLineAndCharacterOfPosition(lineStarts, node.pos),
+                    end: computeLineAndCharacterOfPosition(lineStarts, node.end),
+                };
             }
         }
     }
@@ -74,9 +90,15 @@ function doSyntaxAnalysisOverFiles(args: string[], addPos: boolean) {
             const fileName = filepath.split('/').pop()!;
             const programSource = fs.readFileSync(filepath, 'utf8');
 
-            const sourceFile = Parser.parseSourceFile(fileName, programSource);
+            const sourceFile = parser.parseSourceFile(fileName, programSource);
+            for (const diagnostic of sourceFile.parseDiagnostics) {
+                console.error(chalk.red(formatDiagnostic(diagnostic)));
+            }
+            if (sourceFile.parseDiagnostics.some(d => d.category === DiagnosticCategory.Error)) {
+                process.exitCode = 1;
+            }
 
-            walk(sourceFile);
+            walk(sourceFile, computeLineStarts(programSource));
             const fileDir = filepath.substr(0, filepath.length - fileName.length);
 
             console.log(chalk.blue('Outputting `' + filepath + '.ast`...'));
@@ -88,7 +110,18 @@ function doSyntaxAnalysisOverFiles(args: string[], addPos: boolean) {
     console.log('done');
 }
 
-function doLexAnalysisOverFiles(args: string[]) {
+/** e.g. `test.tsn(3,5): error TSGN1101: Comma expected.` */
+function formatDiagnostic(diagnostic: Diagnostic): string {
+    let location = '';
+    if (diagnostic.file) {
+        const { line, character } = getLineAndCharacterOfPosition(diagnostic.file, diagnostic.start);
+        location = diagnostic.file.fileName + '(' + (line + 1) + ',' + (character + 1) + '): ';
+    }
+    return location + DiagnosticCategory[diagnostic.category].toLowerCase() +
+        ' TSGN' + diagnostic.code + ': ' + diagnostic.message;
+}
+
+function doLexAnalysisOverFiles(args: string[], withTrivia: boolean) {
     if (!args.length) {
         console.error('Error: File paths expected.');
         printHelp();
@@ -96,6 +129,7 @@ function doLexAnalysisOverFiles(args: string[]) {
 
     const filepaths = args.join('').split(',');
     const scanner = Scanner.getScanner();
+    scanner.setSkipTrivia(!withTrivia);
 
     for (const filepath of filepaths) {
         try {
@@ -104,6 +138,14 @@ function doLexAnalysisOverFiles(args: string[]) {
             scanner.resetText(programSource);
             scanner.setTextRange(/* start */ 0);
 
+            // Errors such as `1.5n` are reported where they occur in the token stream
+            const lineStarts = computeLineStarts(programSource);
+            scanner.setOnError((message, length, arg0) => {
+                const { line, character } = computeLineAndCharacterOfPosition(lineStarts, scanner.pos);
+                const diagnostic = createFileDiagnostic(/*file*/ undefined, scanner.pos, length, message, arg0);
+                console.error(chalk.red(filepath + '(' + (line + 1) + ',' + (character + 1) + '): ' + formatDiagnostic(diagnostic)));
+            });
+
             let token; let tokenFlags;
             console.log(chalk.cyan(filepath));
             while (true) {
@@ -113,9 +155,12 @@ function doLexAnalysisOverFiles(args: string[]) {
                 let message = '    ' + SyntaxKind[token];
 
                 if (token === SyntaxKind.NumericLiteral
-                    || token === SyntaxKind.StringLiteral) {
+                    || token === SyntaxKind.BigIntLiteral
+                    || token === SyntaxKind.StringLiteral
+                    || token === SyntaxKind.NoSubstitutionTemplateLiteral
+                    || token === SyntaxKind.TemplateHead) {
                     message += ', value="' + chalk.yellow(scanner.tokenValue) + '"';
-                } else if (token === SyntaxKind.Identifier) {
+                } else if (token === SyntaxKind.Identifier || token === SyntaxKind.PortIdentifier) {
                     message += '[' + chalk.blue(scanner.tokenValue) + ']';
                 }
 
@@ -135,3 +180,59 @@ function doLexAnalysisOverFiles(args: string[]) {
         }
     }
 }
+
+/** Print the token stream as JSON, or as NDJSON with one token per line */
+function doTokenizeOverFiles(args: string[], withTrivia: boolean, ndjson: boolean) {
+    if (!args.length) {
+        console.error('Error: File paths expected.');
+        printHelp();
+    }
+
+    const filepaths = args.join('').split(',');
+    const files: Array<{ file: string, tokens: object[] }> = [];
+
+    for (const filepath of filepaths) {
+        try {
+            const programSource = fs.readFileSync(filepath, 'utf8');
+            const tokens = tokenize(programSource, !withTrivia).map(toJSONToken);
+
+            if (ndjson) {
+                for (const token of tokens) {
+                    console.log(JSON.stringify({ file: filepath, ...token }));
+                }
+            } else {
+                files.push({ file: filepath, tokens });
+            }
+        } catch (e) {
+            console.error(e.message);
+        }
+    }
+
+    if (!ndjson) {
+        console.log(JSON.stringify(files, undefined, 2));
+    }
+}
+
+function toJSONToken(token: TokenInfo) {
+    return {
+        kind: SyntaxKind[token.kind],
+        text: token.text,
+        value: token.value,
+        pos: token.pos,
+        end: token.end,
+        flags: tokenFlagsToNames(token.flags),
+    };
+}
+
+/** e.g. `PrecedingLineBreak | HexSpecifier` => `['PrecedingLineBreak', 'HexSpecifier']` */
+function tokenFlagsToNames(flags: TokenFlags): string[] {
+    const names: string[] = [];
+    for (const name of Object.keys(TokenFlags)) {
+        const flag = (TokenFlags as any)[name];
+        // Skip the reverse mappings and the combined flags
+        if (typeof flag === 'number' && flag && !(flag & (flag - 1)) && flags & flag) {
+            names.push(name);
+        }
+    }
+    return names;
+}
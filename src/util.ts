@@ -1,4 +1,4 @@
-import { CharacterCodes, KeywordSyntaxKind, SyntaxKind, textToKeyword } from './types';
+import { CharacterCodes, Diagnostic, DiagnosticMessage, KeywordSyntaxKind, SourceFile, SyntaxKind, textToKeyword } from './types';
 
 export function assert(expression: boolean, msg?: string) {
     if (expression) return;
@@ -11,7 +11,17 @@ export function isDigit(ch: number): boolean {
 
 export function isLineBreak(ch: number): boolean {
     return ch === CharacterCodes.lineFeed ||
-        ch === CharacterCodes.carriageReturn;
+        ch === CharacterCodes.carriageReturn ||
+        ch === CharacterCodes.lineSeparator ||
+        ch === CharacterCodes.paragraphSeparator;
+}
+
+/** Whitespace that is not a line break */
+export function isWhiteSpaceSingleLine(ch: number): boolean {
+    return ch === CharacterCodes.space ||
+        ch === CharacterCodes.tab ||
+        ch === CharacterCodes.verticalTab ||
+        ch === CharacterCodes.formFeed;
 }
 
 export function isOctalDigit(ch: number): boolean {
@@ -26,16 +36,52 @@ export function isBinaryDigit(ch: number): boolean {
     return ch === CharacterCodes._0 || ch === CharacterCodes._1;
 }
 
+// Unicode ID_Start and ID_Continue, as referenced by the ECMAScript identifier grammar
+const unicodeIdStart = /^\p{ID_Start}$/u;
+const unicodeIdContinue = /^\p{ID_Continue}$/u;
+
 export function isIdentifierStart(ch: number): boolean {
     return ch >= CharacterCodes.A && ch <= CharacterCodes.Z
         || ch >= CharacterCodes.a && ch <= CharacterCodes.z
-        || ch === CharacterCodes.$ || ch === CharacterCodes._;
+        || ch === CharacterCodes.$ || ch === CharacterCodes._
+        || ch > CharacterCodes.maxAsciiCharacter && unicodeIdStart.test(String.fromCodePoint(ch));
 }
 export function isIdentifierPart(ch: number): boolean {
     return ch >= CharacterCodes.A && ch <= CharacterCodes.Z
         || ch >= CharacterCodes.a && ch <= CharacterCodes.z
         || ch >= CharacterCodes._0 && ch <= CharacterCodes._9
-        || ch === CharacterCodes.$ || ch === CharacterCodes._;
+        || ch === CharacterCodes.$ || ch === CharacterCodes._
+        || ch > CharacterCodes.maxAsciiCharacter && (
+            ch === CharacterCodes.zeroWidthNonJoiner || ch === CharacterCodes.zeroWidthJoiner
+            || unicodeIdContinue.test(String.fromCodePoint(ch))
+        );
+}
+
+/** Number of UTF-16 code units of a code point */
+export function charSize(ch: number): number {
+    return ch >= 0x10000 ? 2 : 1;
+}
+
+/**
+ * Convert the digits of an integer of any length to a decimal string without losing precision,
+ * e.g. ('FFFFFFFFFFFFFFFF', 16) => '18446744073709551615'.
+ */
+export function parsePseudoBigInt(digits: string, base: 2 | 8 | 10 | 16): string {
+    // Decimal digits of the result, least significant first
+    const result = [0];
+    for (const digit of digits) {
+        let carry = parseInt(digit, base);
+        for (let i = 0; i < result.length; i++) {
+            const value = result[i] * base + carry;
+            result[i] = value % 10;
+            carry = Math.floor(value / 10);
+        }
+        while (carry) {
+            result.push(carry % 10);
+            carry = Math.floor(carry / 10);
+        }
+    }
+    return result.reverse().join('');
 }
 
 export function checkReservedWord(tokenValue: string): SyntaxKind.Identifier | KeywordSyntaxKind {
@@ -48,3 +94,25 @@ export function checkReservedWord(tokenValue: string): SyntaxKind.Identifier | K
     }
     return SyntaxKind.Identifier;
 }
+
+/** Replace the placeholders `{0}`, `{1}`... in the text with the arguments */
+export function formatStringFromArgs(text: string, args: ReadonlyArray<string | number | undefined>): string {
+    return text.replace(/{(\d+)}/g, (_match, index: string) => String(args[+index]));
+}
+
+export function createFileDiagnostic(
+    file: SourceFile | undefined,
+    start: number,
+    length: number,
+    message: DiagnosticMessage,
+    ...args: Array<string | number | undefined>
+): Diagnostic {
+    return {
+        file,
+        start,
+        length,
+        category: message.category,
+        code: message.code,
+        message: args.length ? formatStringFromArgs(message.message, args) : message.message,
+    };
+}